@@ -2,6 +2,7 @@ import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs';
+import { gateConnection } from './transaction';
 
 // Enable verbose mode for debugging
 const sqlite = sqlite3.verbose();
@@ -25,6 +26,7 @@ export async function initializeDatabase(): Promise<void> {
       }
       
       console.log('📦 Connected to SQLite database');
+      gateConnection(db);
       createTables()
         .then(() => resolve())
         .catch(reject);
@@ -32,8 +34,19 @@ export async function initializeDatabase(): Promise<void> {
   });
 }
 
+// SQLite has no ADD COLUMN IF NOT EXISTS, so check the table definition first
+async function addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const columns = await all(`PRAGMA table_info(${table})`);
+  if (!columns.some((existing: any) => existing.name === column)) {
+    await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 async function createTables(): Promise<void> {
-  const run = promisify(db.run.bind(db));
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   try {
     // Users table
@@ -153,6 +166,336 @@ async function createTables(): Promise<void> {
       )
     `);
 
+    // AI Conversations table
+    await run(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        project_id TEXT,
+        title TEXT NOT NULL,
+        model TEXT,
+        summary TEXT,
+        summarized_count INTEGER DEFAULT 0,
+        forked_from TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE CASCADE,
+        FOREIGN KEY (forked_from) REFERENCES conversations (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Conversation Messages table
+    await run(`
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        model TEXT,
+        tokens_used INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (conversation_id) REFERENCES conversations (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Project File Revisions table (which generation or edit produced each file version)
+    await run(`
+      CREATE TABLE IF NOT EXISTS project_file_revisions (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        generation_id TEXT,
+        change_type TEXT NOT NULL,
+        file_content TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE CASCADE,
+        FOREIGN KEY (generation_id) REFERENCES ai_generations (id) ON DELETE SET NULL
+      )
+    `);
+
+    // AI Jobs table (persistent background queue for generations)
+    await run(`
+      CREATE TABLE IF NOT EXISTS ai_jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        generation_id TEXT,
+        payload TEXT,
+        status TEXT DEFAULT 'queued',
+        attempts INTEGER DEFAULT 0,
+        max_attempts INTEGER DEFAULT 3,
+        run_after DATETIME,
+        locked_at DATETIME,
+        last_error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        finished_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (generation_id) REFERENCES ai_generations (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Credit Ledger table (users.credits is a cached sum of these entries)
+    await run(`
+      CREATE TABLE IF NOT EXISTS credit_ledger (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        entry_type TEXT NOT NULL,
+        amount DECIMAL(10,2) NOT NULL,
+        reference_id TEXT,
+        description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    // User API Keys table (provider keys encrypted with API_KEY_ENCRYPTION_KEY)
+    await run(`
+      CREATE TABLE IF NOT EXISTS user_api_keys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        encrypted_key TEXT NOT NULL,
+        key_hint TEXT,
+        validated_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (user_id, provider),
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    // AI Attachments table (images uploaded with generations, reusable in chat)
+    await run(`
+      CREATE TABLE IF NOT EXISTS ai_attachments (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        generation_id TEXT,
+        file_name TEXT NOT NULL,
+        original_name TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (generation_id) REFERENCES ai_generations (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Chunk embeddings table (retrieval cache, keyed by chunk content hash)
+    await run(`
+      CREATE TABLE IF NOT EXISTS chunk_embeddings (
+        content_hash TEXT NOT NULL,
+        model TEXT NOT NULL,
+        embedding TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (content_hash, model)
+      )
+    `);
+
+    // Prompt Templates table (versioned generation system prompts, admin-editable)
+    await run(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id TEXT PRIMARY KEY,
+        tech_stack TEXT NOT NULL,
+        complexity TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        notes TEXT,
+        weight INTEGER DEFAULT 0,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (tech_stack, complexity, version),
+        FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Generation Cache table (identical requests resolve to an earlier generation)
+    await run(`
+      CREATE TABLE IF NOT EXISTS generation_cache (
+        cache_key TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        generation_id TEXT NOT NULL,
+        hit_count INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_hit_at DATETIME,
+        expires_at DATETIME NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (generation_id) REFERENCES ai_generations (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Moderation Events table (blocked and flagged prompts and outputs, reviewed by admins)
+    await run(`
+      CREATE TABLE IF NOT EXISTS moderation_events (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        generation_id TEXT,
+        endpoint TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        action TEXT NOT NULL,
+        findings TEXT NOT NULL,
+        content TEXT,
+        review_status TEXT DEFAULT 'pending',
+        reviewed_by TEXT,
+        review_notes TEXT,
+        reviewed_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (reviewed_by) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Model Pricing table (USD per 1k tokens, seeded from the model definitions)
+    await run(`
+      CREATE TABLE IF NOT EXISTS model_pricing (
+        model TEXT PRIMARY KEY,
+        input_per_1k REAL NOT NULL,
+        output_per_1k REAL NOT NULL,
+        cached_input_per_1k REAL NOT NULL,
+        updated_by TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (updated_by) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Chat Usage table (one row per answered chat message; kept when its conversation
+    // is forked or deleted, so usage is neither counted twice nor lost)
+    await run(`
+      CREATE TABLE IF NOT EXISTS chat_usage (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        project_id TEXT,
+        message_id TEXT NOT NULL,
+        model TEXT NOT NULL,
+        tokens_used INTEGER DEFAULT 0,
+        input_tokens INTEGER DEFAULT 0,
+        output_tokens INTEGER DEFAULT 0,
+        cached_tokens INTEGER DEFAULT 0,
+        cost DECIMAL(10,4) DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Project Snapshots table (immutable, numbered versions of a project's files)
+    await run(`
+      CREATE TABLE IF NOT EXISTS project_snapshots (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        generation_id TEXT,
+        restored_from TEXT,
+        code_content_hash TEXT,
+        file_count INTEGER DEFAULT 0,
+        size INTEGER DEFAULT 0,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (project_id, version),
+        FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE CASCADE,
+        FOREIGN KEY (generation_id) REFERENCES ai_generations (id) ON DELETE SET NULL,
+        FOREIGN KEY (restored_from) REFERENCES project_snapshots (id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Project Snapshot Files table (the file tree of each snapshot)
+    await run(`
+      CREATE TABLE IF NOT EXISTS project_snapshot_files (
+        snapshot_id TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        file_type TEXT,
+        size INTEGER DEFAULT 0,
+        content_hash TEXT NOT NULL,
+        PRIMARY KEY (snapshot_id, file_path),
+        FOREIGN KEY (snapshot_id) REFERENCES project_snapshots (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Snapshot Blobs table (file contents keyed by SHA-256, shared across snapshots)
+    await run(`
+      CREATE TABLE IF NOT EXISTS snapshot_blobs (
+        hash TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Project Branches table (named lines of work next to a project's main files)
+    await run(`
+      CREATE TABLE IF NOT EXISTS project_branches (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        merge_base_snapshot_id TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        merged_at DATETIME,
+        UNIQUE (project_id, name),
+        FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE CASCADE,
+        FOREIGN KEY (merge_base_snapshot_id) REFERENCES project_snapshots (id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Asset Blobs table (binary contents keyed by SHA-256; the bytes live in a blob store)
+    await run(`
+      CREATE TABLE IF NOT EXISTS asset_blobs (
+        hash TEXT PRIMARY KEY,
+        store TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Project Assets table (uploaded binary files, shared by all branches)
+    await run(`
+      CREATE TABLE IF NOT EXISTS project_assets (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        blob_hash TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        original_name TEXT,
+        uploaded_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (project_id, file_path),
+        FOREIGN KEY (project_id) REFERENCES projects (id) ON DELETE CASCADE,
+        FOREIGN KEY (blob_hash) REFERENCES asset_blobs (hash),
+        FOREIGN KEY (uploaded_by) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    // Columns added after the initial schema
+    await addColumnIfMissing('project_files', 'generation_id', 'TEXT');
+    await addColumnIfMissing('ai_generations', 'applied_at', 'DATETIME');
+    await addColumnIfMissing('ai_generations', 'mode', "TEXT DEFAULT 'generate'");
+    await addColumnIfMissing('ai_generations', 'key_source', "TEXT DEFAULT 'platform'");
+    await addColumnIfMissing('ai_generations', 'verification_status', 'TEXT');
+    await addColumnIfMissing('ai_generations', 'diagnostics', 'TEXT');
+    await addColumnIfMissing('ai_generations', 'repair_history', 'TEXT');
+    await addColumnIfMissing('conversation_messages', 'attachment_ids', 'TEXT');
+    await addColumnIfMissing('users', 'role', "TEXT DEFAULT 'user'");
+    await addColumnIfMissing('ai_generations', 'prompt_template_id', 'TEXT');
+    await addColumnIfMissing('users', 'generation_cache_enabled', 'BOOLEAN DEFAULT 1');
+    await addColumnIfMissing('ai_generations', 'requested_model', 'TEXT');
+    await addColumnIfMissing('ai_generations', 'moderation_status', 'TEXT');
+    await addColumnIfMissing('ai_generations', 'input_tokens', 'INTEGER DEFAULT 0');
+    await addColumnIfMissing('ai_generations', 'output_tokens', 'INTEGER DEFAULT 0');
+    await addColumnIfMissing('ai_generations', 'cached_tokens', 'INTEGER DEFAULT 0');
+    await addColumnIfMissing('conversation_messages', 'input_tokens', 'INTEGER DEFAULT 0');
+    await addColumnIfMissing('conversation_messages', 'output_tokens', 'INTEGER DEFAULT 0');
+    await addColumnIfMissing('conversation_messages', 'cached_tokens', 'INTEGER DEFAULT 0');
+    await addColumnIfMissing('conversation_messages', 'cost', 'DECIMAL(10,4) DEFAULT 0');
+    await addColumnIfMissing('projects', 'current_branch', "TEXT DEFAULT 'main'");
+    await addColumnIfMissing('project_files', 'branch', "TEXT DEFAULT 'main'");
+    await addColumnIfMissing('project_file_revisions', 'branch', "TEXT DEFAULT 'main'");
+    await addColumnIfMissing('project_snapshots', 'branch', "TEXT DEFAULT 'main'");
+
     // Create indexes for better performance
     await run('CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)');
     await run('CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id)');
@@ -164,6 +507,50 @@ async function createTables(): Promise<void> {
     await run('CREATE INDEX IF NOT EXISTS idx_project_files_project_id ON project_files(project_id)');
     await run('CREATE INDEX IF NOT EXISTS idx_payment_transactions_user_id ON payment_transactions(user_id)');
     await run('CREATE INDEX IF NOT EXISTS idx_api_usage_user_id ON api_usage(user_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_project_file_revisions_project_id ON project_file_revisions(project_id, file_path)');
+    await run('CREATE INDEX IF NOT EXISTS idx_project_file_revisions_generation_id ON project_file_revisions(generation_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_ai_jobs_status ON ai_jobs(status, run_after)');
+    await run('CREATE INDEX IF NOT EXISTS idx_ai_jobs_generation_id ON ai_jobs(generation_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_id ON credit_ledger(user_id, created_at)');
+    await run('CREATE INDEX IF NOT EXISTS idx_credit_ledger_reference_id ON credit_ledger(reference_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_conversations_user_project ON conversations(user_id, project_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation_id ON conversation_messages(conversation_id, created_at)');
+    await run('CREATE INDEX IF NOT EXISTS idx_ai_attachments_generation_id ON ai_attachments(generation_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_generation_cache_user_id ON generation_cache(user_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_moderation_events_review ON moderation_events(review_status, created_at)');
+    await run('CREATE INDEX IF NOT EXISTS idx_project_assets_blob_hash ON project_assets(blob_hash)');
+    await run('CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_usage_message_id ON chat_usage(message_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_chat_usage_user_id ON chat_usage(user_id, created_at)');
+
+    // Saving a path used to insert a new row each time; keep the newest row per path
+    // so the unique index below can be created
+    await run(`
+      DELETE FROM project_files
+      WHERE rowid NOT IN (SELECT MAX(rowid) FROM project_files GROUP BY project_id, branch, file_path)
+    `);
+    await run('CREATE UNIQUE INDEX IF NOT EXISTS idx_project_files_path ON project_files(project_id, branch, file_path)');
+
+    // Seed the ledger with an opening balance for users created before it existed
+    await run(`
+      INSERT INTO credit_ledger (id, user_id, entry_type, amount, description)
+      SELECT lower(hex(randomblob(16))), id, 'grant', credits, 'Opening balance'
+      FROM users
+      WHERE credits > 0 AND id NOT IN (SELECT DISTINCT user_id FROM credit_ledger)
+    `);
+
+    // Record chat replies answered before chat_usage existed. A fork's copies of
+    // earlier messages keep their timestamps, which predate the fork itself.
+    await run(`
+      INSERT INTO chat_usage (id, user_id, project_id, message_id, model, tokens_used, input_tokens, output_tokens,
+        cached_tokens, cost, created_at)
+      SELECT lower(hex(randomblob(16))), c.user_id, c.project_id, m.id, m.model, m.tokens_used, m.input_tokens, m.output_tokens,
+        m.cached_tokens, m.cost, m.created_at
+      FROM conversation_messages m
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE m.role = 'assistant' AND m.model IS NOT NULL
+        AND (c.forked_from IS NULL OR m.created_at >= c.created_at)
+        AND m.id NOT IN (SELECT message_id FROM chat_usage)
+    `);
 
     console.log('✅ Database tables created successfully');
   } catch (error) {
@@ -172,6 +559,13 @@ async function createTables(): Promise<void> {
   }
 }
 
+// The promisified query methods. promisify() types them from the sqlite3 overloads
+// that take no params, so cast: `promisify(db.get.bind(db)) as QueryGet`. Rows are
+// `any` unless a row type is given, e.g. `get<ProjectAsset>(...)`.
+export type QueryGet = <T = any>(sql: string, params?: unknown[]) => Promise<T | undefined>;
+export type QueryAll = <T = any>(sql: string, params?: unknown[]) => Promise<T[]>;
+export type QueryRun = (sql: string, params?: unknown[]) => Promise<void>;
+
 export function getDatabase(): sqlite3.Database {
   if (!db) {
     throw new Error('Database not initialized. Call initializeDatabase() first.');
@@ -27,7 +27,8 @@ async function seedDatabase(): Promise<void> {
         password: 'demo123456',
         displayName: 'Demo User',
         plan: 'pro',
-        credits: 100
+        credits: 100,
+        role: 'user'
       },
       {
         id: uuidv4(),
@@ -35,7 +36,8 @@ async function seedDatabase(): Promise<void> {
         password: 'admin123456',
         displayName: 'Admin User',
         plan: 'max',
-        credits: 500
+        credits: 500,
+        role: 'admin'
       }
     ];
 
@@ -44,9 +46,9 @@ async function seedDatabase(): Promise<void> {
       const passwordHash = await bcrypt.hash(user.password, 12);
       
       await run(
-        `INSERT INTO users (id, email, password_hash, display_name, plan, credits, is_active, email_verified)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-        [user.id, user.email, passwordHash, user.displayName, user.plan, user.credits, 1, 1]
+        `INSERT INTO users (id, email, password_hash, display_name, plan, credits, role, is_active, email_verified)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [user.id, user.email, passwordHash, user.displayName, user.plan, user.credits, user.role, 1, 1]
       );
 
       console.log(`✅ Created user: ${user.email} (${user.plan})`);
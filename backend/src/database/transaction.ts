@@ -0,0 +1,62 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import sqlite3 from 'sqlite3';
+import { getDatabase } from './init';
+import { promisify } from 'util';
+
+// All queries share one connection, so transactions are serialized in-process
+// to keep two requests from interleaving BEGIN/COMMIT on the same handle.
+let queue: Promise<unknown> = Promise.resolve();
+
+// Statements made outside a running transaction would join it on the shared
+// connection, and a ROLLBACK would discard them with it. While one is open, they
+// wait until it ends; statements from the transaction's own callback run at once.
+const transactionScope = new AsyncLocalStorage<boolean>();
+let openTransaction: Promise<unknown> | null = null;
+
+const GATED_METHODS = ['run', 'get', 'all', 'each', 'exec'] as const;
+
+// Applied once when the connection opens, before anything binds its methods
+export function gateConnection(db: sqlite3.Database): void {
+  for (const method of GATED_METHODS) {
+    const original = (db[method] as (...args: any[]) => sqlite3.Database).bind(db);
+    (db as any)[method] = (...args: any[]) => {
+      const call = (): void => {
+        // Checked again on resume, in case the next transaction has started meanwhile
+        if (openTransaction && !transactionScope.getStore()) {
+          openTransaction.then(call, call);
+        } else {
+          original(...args);
+        }
+      };
+      call();
+      return db;
+    };
+  }
+}
+
+export function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  const result = queue.then(() => {
+    const db = getDatabase();
+    const exec = promisify(db.exec.bind(db));
+
+    const transaction = transactionScope.run(true, async () => {
+      await exec('BEGIN IMMEDIATE');
+      try {
+        const value = await fn();
+        await exec('COMMIT');
+        return value;
+      } catch (error) {
+        await exec('ROLLBACK');
+        throw error;
+      }
+    });
+
+    openTransaction = transaction.catch(() => undefined).then(() => {
+      openTransaction = null;
+    });
+    return transaction;
+  });
+
+  queue = result.catch(() => undefined);
+  return result;
+}
@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import { AIProvider } from '../services/ai/types';
+import { calculateCost } from '../services/ai/pricing';
+import { createGenerationRequest, DEFAULT_PROMPT_TEMPLATE } from '../services/ai/prompts';
+import { OutputFormat, parseGeneratedFiles } from '../services/ai/fileProtocol';
+import { verifyAndRepair } from '../services/ai/repair';
+
+export interface EvaluationFixture {
+  id: string;
+  prompt: string;
+  techStack: string;
+  complexity: string;
+  // Paths the output should contain; `*` matches within a path segment and `**` across
+  // segments, and patterns without a slash match file names in any directory
+  expectedFiles: string[];
+}
+
+export interface FixtureResult {
+  id: string;
+  techStack: string;
+  complexity: string;
+  passed: boolean;
+  score: number;
+  parse: { passed: boolean; format: OutputFormat | null; fileCount: number; errors: string[] };
+  build: { passed: boolean; errorCount: number; warningCount: number; repairRounds: number };
+  expectedFiles: { matched: string[]; missing: string[] };
+  tokensUsed: number;
+  cost: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvaluationReport {
+  createdAt: string;
+  model: string;
+  provider: string;
+  // Hash of the system prompt template, so reports of different templates are told apart
+  template: { source: string; hash: string };
+  repairRounds: number;
+  summary: {
+    fixtures: number;
+    passed: number;
+    score: number;
+    tokensUsed: number;
+    cost: number;
+  };
+  results: FixtureResult[];
+}
+
+export interface EvaluationOptions {
+  provider: AIProvider;
+  model: string;
+  modelMaxTokens: number;
+  template?: { source: string; content: string };
+  repairRounds: number;
+  onResult?: (result: FixtureResult) => void;
+}
+
+export interface ComparisonThresholds {
+  // Points the overall score may drop by
+  maxScoreDrop: number;
+  // Percentage the total token count may grow by
+  maxTokenIncrease: number;
+}
+
+export interface ReportComparison {
+  passed: boolean;
+  scoreDelta: number;
+  tokenDeltaPercent: number;
+  regressions: string[];
+  improvements: string[];
+  failures: string[];
+}
+
+// Weights of the score components; token cost is reported and gated separately
+const PARSE_WEIGHT = 25;
+const BUILD_WEIGHT = 35;
+const FILES_WEIGHT = 40;
+
+// Run each fixture through the same request building, verification and repair as /api/ai/generate
+export async function runEvaluation(fixtures: EvaluationFixture[], options: EvaluationOptions): Promise<EvaluationReport> {
+  const content = options.template?.content || DEFAULT_PROMPT_TEMPLATE;
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const result = await runFixture(fixture, options);
+    results.push(result);
+    options.onResult?.(result);
+  }
+
+  const tokensUsed = results.reduce((sum, result) => sum + result.tokensUsed, 0);
+
+  return {
+    createdAt: new Date().toISOString(),
+    model: options.model,
+    provider: options.provider.id,
+    template: {
+      source: options.template?.source || 'built-in',
+      hash: crypto.createHash('sha256').update(content).digest('hex').slice(0, 12)
+    },
+    repairRounds: options.repairRounds,
+    summary: {
+      fixtures: results.length,
+      passed: results.filter(result => result.passed).length,
+      score: round(results.reduce((sum, result) => sum + result.score, 0) / Math.max(results.length, 1)),
+      tokensUsed,
+      cost: round(results.reduce((sum, result) => sum + result.cost, 0), 6)
+    },
+    results
+  };
+}
+
+async function runFixture(fixture: EvaluationFixture, options: EvaluationOptions): Promise<FixtureResult> {
+  const startedAt = Date.now();
+  const result: FixtureResult = {
+    id: fixture.id,
+    techStack: fixture.techStack,
+    complexity: fixture.complexity,
+    passed: false,
+    score: 0,
+    parse: { passed: false, format: null, fileCount: 0, errors: [] },
+    build: { passed: false, errorCount: 0, warningCount: 0, repairRounds: 0 },
+    expectedFiles: { matched: [], missing: fixture.expectedFiles },
+    tokensUsed: 0,
+    cost: 0,
+    durationMs: 0
+  };
+
+  try {
+    const request = createGenerationRequest(
+      fixture.prompt,
+      fixture.techStack,
+      options.model,
+      fixture.complexity,
+      options.modelMaxTokens,
+      [],
+      { template: options.template?.content, project: { name: fixture.id } }
+    );
+    const completion = await options.provider.complete(request);
+
+    // Parse success is judged on the first answer; repairs only count towards the build
+    const parsed = parseGeneratedFiles(completion.text, fixture.techStack);
+    result.parse = {
+      passed: parsed.files.length > 0 && parsed.errors.length === 0,
+      format: parsed.format,
+      fileCount: parsed.files.length,
+      errors: parsed.errors
+    };
+
+    const verified = await verifyAndRepair(options.provider, request, completion, {
+      techStack: fixture.techStack,
+      maxRounds: options.repairRounds
+    });
+    result.build = {
+      passed: verified.verification.passed,
+      errorCount: verified.verification.errorCount,
+      warningCount: verified.verification.warningCount,
+      repairRounds: verified.repairs.length
+    };
+
+    const paths = parseGeneratedFiles(verified.text, fixture.techStack).files.map(file => file.path);
+    const matched = fixture.expectedFiles.filter(pattern => paths.some(filePath => matchesPattern(pattern, filePath)));
+    result.expectedFiles = {
+      matched,
+      missing: fixture.expectedFiles.filter(pattern => !matched.includes(pattern))
+    };
+
+    result.tokensUsed = verified.tokensUsed;
+    result.cost = calculateCost(options.model, verified.usage);
+  } catch (error: any) {
+    result.error = error.message;
+  }
+
+  const filesScore = fixture.expectedFiles.length > 0
+    ? result.expectedFiles.matched.length / fixture.expectedFiles.length
+    : 1;
+  result.score = round(
+    (result.parse.passed ? PARSE_WEIGHT : 0) + (result.build.passed ? BUILD_WEIGHT : 0) + (result.error ? 0 : filesScore * FILES_WEIGHT)
+  );
+  result.passed = !result.error && result.parse.passed && result.build.passed && result.expectedFiles.missing.length === 0;
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
+
+export function matchesPattern(pattern: string, filePath: string): boolean {
+  const target = pattern.includes('/') ? filePath : filePath.split('/').pop()!;
+  const source = pattern
+    .split('**')
+    .map(part => part.split('*').map(escapeRegExp).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(target);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Gate a candidate report against a baseline over the fixtures both ran: the average
+// score must not drop, no fixture that passed may fail, and token usage may only grow
+// within the threshold
+export function compareReports(
+  baseline: EvaluationReport,
+  current: EvaluationReport,
+  thresholds: ComparisonThresholds
+): ReportComparison {
+  const pairs = current.results
+    .map(result => ({ result, previous: baseline.results.find(candidate => candidate.id === result.id) }))
+    .filter((pair): pair is { result: FixtureResult; previous: FixtureResult } => pair.previous !== undefined);
+
+  const sum = (results: FixtureResult[], field: 'score' | 'tokensUsed') =>
+    results.reduce((total, result) => total + result[field], 0);
+  const baselineTokens = sum(pairs.map(pair => pair.previous), 'tokensUsed');
+  const currentTokens = sum(pairs.map(pair => pair.result), 'tokensUsed');
+
+  const scoreDelta = pairs.length > 0
+    ? round((sum(pairs.map(pair => pair.result), 'score') - sum(pairs.map(pair => pair.previous), 'score')) / pairs.length)
+    : 0;
+  const tokenDeltaPercent = baselineTokens > 0 ? round((currentTokens - baselineTokens) / baselineTokens * 100) : 0;
+
+  const regressions = pairs.filter(pair => pair.previous.passed && !pair.result.passed).map(pair => pair.result.id);
+  const improvements = pairs.filter(pair => !pair.previous.passed && pair.result.passed).map(pair => pair.result.id);
+
+  const failures: string[] = [];
+  if (-scoreDelta > thresholds.maxScoreDrop) {
+    failures.push(`Score dropped by ${-scoreDelta} points (allowed ${thresholds.maxScoreDrop})`);
+  }
+  if (regressions.length > 0) {
+    failures.push(`Fixtures that no longer pass: ${regressions.join(', ')}`);
+  }
+  if (tokenDeltaPercent > thresholds.maxTokenIncrease) {
+    failures.push(`Token usage grew by ${tokenDeltaPercent}% (allowed ${thresholds.maxTokenIncrease}%)`);
+  }
+
+  return { passed: failures.length === 0, scoreDelta, tokenDeltaPercent, regressions, improvements, failures };
+}
+
+export function formatResultLine(result: FixtureResult): string {
+  const checks = [
+    `parse ${result.parse.passed ? 'ok' : 'FAIL'}`,
+    `build ${result.build.passed ? 'ok' : `FAIL (${result.build.errorCount} errors)`}`,
+    `files ${result.expectedFiles.matched.length}/${result.expectedFiles.matched.length + result.expectedFiles.missing.length}`,
+    `${result.tokensUsed} tokens`
+  ];
+  const status = result.passed ? 'PASS' : 'FAIL';
+  return `${status} ${result.id.padEnd(24)} score ${String(result.score).padStart(5)}  ${checks.join(', ')}${result.error ? `  error: ${result.error}` : ''}`;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
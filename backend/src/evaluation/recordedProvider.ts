@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AIProvider, CompletionRequest, CompletionResult, TokenUsage } from '../services/ai/types';
+
+// Recorded completions let the evaluation suite run against real model output
+// without calling the provider again. Each request is stored under a hash of
+// everything that affects the output, so changing a prompt template misses the
+// recording instead of silently reusing a stale answer.
+
+interface Recording {
+  model: string;
+  task?: string;
+  text: string;
+  tokensUsed: number;
+  // Missing from recordings made before usage was split
+  usage?: TokenUsage;
+  recordedAt: string;
+}
+
+export function hashRequest(request: CompletionRequest): string {
+  const key = JSON.stringify({
+    model: request.model,
+    system: request.system,
+    messages: request.messages,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature
+  });
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function recordingPath(directory: string, request: CompletionRequest): string {
+  return path.join(directory, `${hashRequest(request)}.json`);
+}
+
+// Pass requests through to the real provider and save each answer
+export function createRecordingProvider(provider: AIProvider, directory: string): AIProvider {
+  fs.mkdirSync(directory, { recursive: true });
+
+  return {
+    ...provider,
+
+    async complete(request, signal) {
+      const result = await provider.complete(request, signal);
+      const recording: Recording = {
+        model: request.model,
+        task: request.task,
+        text: result.text,
+        tokensUsed: result.tokensUsed,
+        usage: result.usage,
+        recordedAt: new Date().toISOString()
+      };
+      await fs.promises.writeFile(recordingPath(directory, request), JSON.stringify(recording, null, 2));
+      return result;
+    },
+
+    async *stream(request, signal) {
+      const result = await this.complete(request, signal);
+      yield { type: 'delta', text: result.text };
+      yield { type: 'usage', tokensUsed: result.tokensUsed, usage: result.usage };
+    }
+  };
+}
+
+// Answer only from recordings; a request that was never recorded fails
+export function createReplayProvider(provider: AIProvider, directory: string): AIProvider {
+  return {
+    ...provider,
+    id: `${provider.id}-replay`,
+    name: `${provider.name} (replay)`,
+
+    isAvailable() {
+      return true;
+    },
+
+    async complete(request): Promise<CompletionResult> {
+      const file = recordingPath(directory, request);
+      let recording: Recording;
+      try {
+        recording = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          throw new Error(`No recording for this ${request.task || 'completion'} request (${path.basename(file)}); run with --record first`);
+        }
+        throw error;
+      }
+      // Older recordings only have a total; price it all as output, the higher rate
+      return {
+        text: recording.text,
+        tokensUsed: recording.tokensUsed,
+        usage: recording.usage || { inputTokens: 0, outputTokens: recording.tokensUsed, cachedTokens: 0 }
+      };
+    },
+
+    async *stream(request, signal) {
+      const result = await this.complete(request, signal);
+      yield { type: 'delta', text: result.text };
+      yield { type: 'usage', tokensUsed: result.tokensUsed, usage: result.usage };
+    }
+  };
+}
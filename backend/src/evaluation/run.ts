@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { resolveModel } from '../services/ai/registry';
+import { findUnknownVariables } from '../services/ai/prompts';
+import { DEFAULT_REPAIR_ROUNDS, MAX_REPAIR_ROUNDS } from '../services/ai/repair';
+import { AIProvider } from '../services/ai/types';
+import { compareReports, EvaluationFixture, EvaluationReport, formatResultLine, runEvaluation } from './harness';
+import { createRecordingProvider, createReplayProvider } from './recordedProvider';
+import defaultFixtures from './fixtures.json';
+
+// Usage: npm run eval -- [--model mock] [--fixtures file.json] [--only id,id]
+//   [--template file.txt] [--repair-rounds n] [--record dir | --replay dir]
+//   [--out report.json] [--baseline report.json] [--max-score-drop 0] [--max-token-increase 10]
+
+dotenv.config();
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const next = argv[index + 1];
+    if (next === undefined || next.startsWith('--')) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    args[arg.slice(2)] = next;
+    index++;
+  }
+  return args;
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+function parseNumber(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+async function runEvaluationCommand(): Promise<boolean> {
+  const args = parseArgs(process.argv.slice(2));
+  const model = args.model || 'mock';
+
+  let fixtures = args.fixtures ? readJson<EvaluationFixture[]>(args.fixtures) : defaultFixtures as EvaluationFixture[];
+  if (args.only) {
+    const ids = args.only.split(',');
+    fixtures = fixtures.filter(fixture => ids.includes(fixture.id));
+  }
+  if (fixtures.length === 0) {
+    throw new Error('No fixtures to run');
+  }
+
+  let template: { source: string; content: string } | undefined;
+  if (args.template) {
+    const content = fs.readFileSync(args.template, 'utf8');
+    const unknown = findUnknownVariables(content);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown template variable(s): ${unknown.join(', ')}`);
+    }
+    template = { source: args.template, content };
+  }
+
+  if (args.record && args.replay) {
+    throw new Error('Use either --record or --replay, not both');
+  }
+
+  // Replays don't need the provider to be configured
+  const resolved = resolveModel(model, 'code', { skipAvailability: Boolean(args.replay) });
+  let provider: AIProvider = resolved.provider;
+  if (args.record) {
+    provider = createRecordingProvider(provider, args.record);
+  } else if (args.replay) {
+    provider = createReplayProvider(provider, args.replay);
+  }
+
+  const repairRounds = Math.min(parseNumber(args['repair-rounds'], DEFAULT_REPAIR_ROUNDS, 'repair-rounds'), MAX_REPAIR_ROUNDS);
+
+  console.log(`🧪 Evaluating ${fixtures.length} fixture(s) with ${model}${template ? ` using ${template.source}` : ''}`);
+  const report = await runEvaluation(fixtures, {
+    provider,
+    model,
+    modelMaxTokens: resolved.model.maxTokens,
+    template,
+    repairRounds,
+    onResult: result => console.log(formatResultLine(result))
+  });
+
+  const { summary } = report;
+  console.log(`\n📊 ${summary.passed}/${summary.fixtures} passed, score ${summary.score}, ${summary.tokensUsed} tokens ($${summary.cost})`);
+
+  const out = args.out || path.join('evaluation-reports', `${report.createdAt.replace(/[:.]/g, '-')}-${model}.json`);
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, JSON.stringify(report, null, 2));
+  console.log(`📝 Report written to ${out}`);
+
+  if (!args.baseline) {
+    return true;
+  }
+
+  const baseline = readJson<EvaluationReport>(args.baseline);
+  const comparison = compareReports(baseline, report, {
+    maxScoreDrop: parseNumber(args['max-score-drop'], 0, 'max-score-drop'),
+    maxTokenIncrease: parseNumber(args['max-token-increase'], 10, 'max-token-increase')
+  });
+
+  console.log(`\n⚖️  Compared with ${args.baseline}: score ${comparison.scoreDelta >= 0 ? '+' : ''}${comparison.scoreDelta}, tokens ${comparison.tokenDeltaPercent >= 0 ? '+' : ''}${comparison.tokenDeltaPercent}%`);
+  if (comparison.improvements.length > 0) {
+    console.log(`Now passing: ${comparison.improvements.join(', ')}`);
+  }
+  for (const failure of comparison.failures) {
+    console.log(`❌ ${failure}`);
+  }
+  if (comparison.passed) {
+    console.log('✅ No regressions');
+  }
+  return comparison.passed;
+}
+
+// Run evaluation if called directly
+if (require.main === module) {
+  runEvaluationCommand()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('❌ Evaluation failed:', error.message);
+      process.exit(2);
+    });
+}
+
+export { runEvaluationCommand };
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { getDatabase } from '../database/init';
 import { promisify } from 'util';
+import { getBalance } from '../services/credits';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -9,6 +10,7 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     plan: string;
     credits: number;
+    role: string;
   };
 }
 
@@ -38,7 +40,7 @@ export async function authenticateToken(
     const get = promisify(db.get.bind(db));
     
     const user = await get(
-      'SELECT id, email, plan, credits FROM users WHERE id = ? AND is_active = 1',
+      'SELECT id, email, plan, credits, role FROM users WHERE id = ? AND is_active = 1',
       [decoded.userId]
     );
 
@@ -86,22 +88,44 @@ export function requirePlan(allowedPlans: string[]) {
   };
 }
 
+export function requireAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  if (req.user.role !== 'admin') {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
+  next();
+}
+
+// Pre-check against the live ledger balance; the exact amount is reserved by the handler
 export function requireCredits(minCredits: number = 1) {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({ error: 'Authentication required' });
       return;
     }
 
-    if (req.user.credits < minCredits) {
-      res.status(402).json({ 
-        error: 'Insufficient credits',
-        required: minCredits,
-        available: req.user.credits
-      });
-      return;
-    }
+    try {
+      const available = await getBalance(req.user.id);
+      req.user.credits = available;
 
-    next();
+      if (available < minCredits) {
+        res.status(402).json({ 
+          error: 'Insufficient credits',
+          required: minCredits,
+          available
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
   };
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { ErrorRequestHandler } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { createError } from './errorHandler';
+
+const ALLOWED_IMAGE_TYPES = /jpeg|jpg|png|gif|webp/;
+
+// Image uploads stored on disk under random names
+export function createImageUpload(directory: string, maxFileSize: number = 5 * 1024 * 1024) {
+  const storage = multer.diskStorage({
+    destination: (req, file, cb) => {
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true });
+      }
+      cb(null, directory);
+    },
+    filename: (req, file, cb) => {
+      const uniqueName = `${uuidv4()}${path.extname(file.originalname)}`;
+      cb(null, uniqueName);
+    }
+  });
+
+  return multer({
+    storage,
+    limits: {
+      fileSize: maxFileSize
+    },
+    fileFilter: (req, file, cb) => {
+      const extname = ALLOWED_IMAGE_TYPES.test(path.extname(file.originalname).toLowerCase());
+      const mimetype = ALLOWED_IMAGE_TYPES.test(file.mimetype);
+
+      if (mimetype && extname) {
+        return cb(null, true);
+      } else {
+        cb(createError('Only image files are allowed', 400));
+      }
+    }
+  });
+}
+
+// Uploads kept in memory, for handlers that hash or store the bytes themselves
+export function createMemoryUpload(maxFileSize: number) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: maxFileSize
+    }
+  });
+}
+
+export function getUploadedFiles(req: Express.Request): Express.Multer.File[] {
+  if (Array.isArray(req.files)) {
+    return req.files;
+  }
+  return req.file ? [req.file] : [];
+}
+
+export async function removeUploadedFiles(files: Express.Multer.File[]): Promise<void> {
+  await Promise.all(files.map(file => fs.promises.unlink(file.path).catch(() => undefined)));
+}
+
+// Delete the request's uploads when it fails before a handler takes ownership of them
+// (by setting res.locals.keepUploads)
+export const discardUploadsOnError: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.locals.keepUploads) {
+    next(err);
+    return;
+  }
+  removeUploadedFiles(getUploadedFiles(req)).finally(() => next(err));
+};
@@ -0,0 +1,325 @@
+import express from 'express';
+import Joi from 'joi';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { promisify } from 'util';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { authenticateToken, AuthenticatedRequest, requireAdmin } from '../middleware/auth';
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_TEMPLATE_VARIABLES } from '../services/ai/prompts';
+import {
+  ANY,
+  createPromptTemplate,
+  formatPromptTemplate,
+  getPromptTemplate,
+  getTemplateStats,
+  MAX_ROLLOUT_VARIANTS,
+  PromptTemplate,
+  setRollout
+} from '../services/ai/promptTemplates';
+import { formatModerationEvent } from '../services/ai/moderation';
+import { formatModelPricing, listModelPricing, ModelPricingEntry, setModelPricing } from '../services/ai/pricing';
+import { getModelIds } from '../services/ai/registry';
+
+const router = express.Router();
+
+router.use(authenticateToken, requireAdmin);
+
+const TECH_STACKS = ['react', 'vue', 'angular', 'vanilla', 'next', 'nuxt'];
+const COMPLEXITIES = ['simple', 'medium', 'complex'];
+
+// Validation schemas
+const templateKeySchema = {
+  techStack: Joi.string().valid(...TECH_STACKS, ANY).required(),
+  complexity: Joi.string().valid(...COMPLEXITIES, ANY).required()
+};
+
+const createTemplateSchema = Joi.object({
+  ...templateKeySchema,
+  content: Joi.string().min(20).max(20000).required(),
+  notes: Joi.string().max(500).allow('', null).optional(),
+  activate: Joi.boolean().default(false)
+});
+
+const rolloutSchema = Joi.object({
+  ...templateKeySchema,
+  variants: Joi.array().items(Joi.object({
+    templateId: Joi.string().uuid().required(),
+    weight: Joi.number().integer().min(1).max(100).required()
+  })).max(MAX_ROLLOUT_VARIANTS).unique('templateId').required()
+});
+
+const moderationFilterSchema = Joi.object({
+  status: Joi.string().valid('pending', 'upheld', 'dismissed').default('pending'),
+  action: Joi.string().valid('blocked', 'flagged').optional(),
+  userId: Joi.string().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const reviewSchema = Joi.object({
+  decision: Joi.string().valid('upheld', 'dismissed').required(),
+  notes: Joi.string().max(1000).allow('', null).optional(),
+  // Upholding can also suspend the account (it can no longer log in or use its tokens)
+  deactivateUser: Joi.boolean().default(false)
+});
+
+// USD per 1k tokens; cached input defaults to the input price
+const pricingSchema = Joi.object({
+  inputPer1kTokens: Joi.number().min(0).max(10).required(),
+  outputPer1kTokens: Joi.number().min(0).max(10).required(),
+  cachedInputPer1kTokens: Joi.number().min(0).max(10).optional()
+});
+
+const templateFilterSchema = Joi.object({
+  techStack: Joi.string().valid(...TECH_STACKS, ANY).optional(),
+  complexity: Joi.string().valid(...COMPLEXITIES, ANY).optional()
+});
+
+// List prompt template versions
+router.get('/prompt-templates', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = templateFilterSchema.validate(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (value.techStack) {
+    conditions.push('tech_stack = ?');
+    params.push(value.techStack);
+  }
+  if (value.complexity) {
+    conditions.push('complexity = ?');
+    params.push(value.complexity);
+  }
+
+  const templates = await all(
+    `SELECT * FROM prompt_templates
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY tech_stack, complexity, version DESC`,
+    params
+  ) as PromptTemplate[];
+
+  res.json({
+    templates: templates.map(formatPromptTemplate),
+    variables: PROMPT_TEMPLATE_VARIABLES,
+    defaultTemplate: DEFAULT_PROMPT_TEMPLATE
+  });
+}));
+
+// Generation outcomes per version of a template key
+router.get('/prompt-templates/stats', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = Joi.object(templateKeySchema).validate(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  res.json({
+    techStack: value.techStack,
+    complexity: value.complexity,
+    versions: await getTemplateStats(value.techStack, value.complexity)
+  });
+}));
+
+// Get a single template version
+router.get('/prompt-templates/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const template = await getPromptTemplate(req.params.id);
+  if (!template) {
+    throw createError('Prompt template not found', 404);
+  }
+
+  res.json({ template: formatPromptTemplate(template) });
+}));
+
+// Save a new version; versions are never edited in place so generations keep pointing at what they used
+router.post('/prompt-templates', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = createTemplateSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { techStack, complexity, content, notes, activate } = value;
+  let template = await createPromptTemplate(techStack, complexity, content, notes || null, req.user!.id);
+
+  if (activate) {
+    await setRollout(techStack, complexity, [{ templateId: template.id, weight: 100 }]);
+    template = (await getPromptTemplate(template.id))!;
+  }
+
+  res.status(201).json({
+    message: 'Prompt template created successfully',
+    template: formatPromptTemplate(template)
+  });
+}));
+
+// Choose which versions of a key are served, and how traffic is split between them
+router.put('/prompt-templates/rollout', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = rolloutSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const active = await setRollout(value.techStack, value.complexity, value.variants);
+
+  res.json({
+    message: 'Rollout updated successfully',
+    techStack: value.techStack,
+    complexity: value.complexity,
+    variants: active.map(formatPromptTemplate)
+  });
+}));
+
+function formatPricingEntry(entry: ModelPricingEntry) {
+  return {
+    model: entry.model,
+    ...formatModelPricing(entry),
+    updatedBy: entry.updatedBy,
+    updatedAt: entry.updatedAt
+  };
+}
+
+// Current per-model token prices
+router.get('/pricing', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  res.json({ pricing: listModelPricing().map(formatPricingEntry) });
+}));
+
+// Update a model's prices; applies to requests settled from now on
+router.put('/pricing/:model', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  if (!getModelIds().includes(req.params.model)) {
+    throw createError(`Unsupported model: ${req.params.model}`, 404);
+  }
+
+  const { error, value } = pricingSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const entry = await setModelPricing(req.params.model, {
+    input: value.inputPer1kTokens,
+    output: value.outputPer1kTokens,
+    cachedInput: value.cachedInputPer1kTokens ?? value.inputPer1kTokens
+  }, req.user!.id);
+
+  res.json({
+    message: 'Pricing updated successfully',
+    pricing: formatPricingEntry(entry)
+  });
+}));
+
+// Review queue of blocked and flagged prompts and outputs, oldest first
+router.get('/moderation', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = moderationFilterSchema.validate(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const conditions = ['m.review_status = ?'];
+  const params: (string | number)[] = [value.status];
+  if (value.action) {
+    conditions.push('m.action = ?');
+    params.push(value.action);
+  }
+  if (value.userId) {
+    conditions.push('m.user_id = ?');
+    params.push(value.userId);
+  }
+  const where = `WHERE ${conditions.join(' AND ')}`;
+
+  const events = await all(
+    `SELECT m.*, u.email AS user_email
+     FROM moderation_events m
+     LEFT JOIN users u ON u.id = m.user_id
+     ${where}
+     ORDER BY m.created_at ${value.status === 'pending' ? 'ASC' : 'DESC'}
+     LIMIT ? OFFSET ?`,
+    [...params, value.limit, (value.page - 1) * value.limit]
+  );
+  const { total } = await get(`SELECT COUNT(*) AS total FROM moderation_events m ${where}`, params);
+
+  res.json({
+    events: events.map(formatModerationEvent),
+    pagination: {
+      page: value.page,
+      limit: value.limit,
+      total
+    }
+  });
+}));
+
+// Get a single moderation event
+router.get('/moderation/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const event = await get(
+    `SELECT m.*, u.email AS user_email
+     FROM moderation_events m
+     LEFT JOIN users u ON u.id = m.user_id
+     WHERE m.id = ?`,
+    [req.params.id]
+  );
+
+  if (!event) {
+    throw createError('Moderation event not found', 404);
+  }
+
+  res.json({ event: formatModerationEvent(event) });
+}));
+
+// Record a decision on an event; decisions can be revised
+router.post('/moderation/:id/review', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = reviewSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  if (value.deactivateUser && value.decision !== 'upheld') {
+    throw createError('Only an upheld event can deactivate the user', 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const event = await get('SELECT id, user_id FROM moderation_events WHERE id = ?', [req.params.id]);
+  if (!event) {
+    throw createError('Moderation event not found', 404);
+  }
+
+  if (value.deactivateUser && event.user_id === req.user!.id) {
+    throw createError('You cannot deactivate your own account', 400);
+  }
+
+  await run(
+    `UPDATE moderation_events
+     SET review_status = ?, reviewed_by = ?, review_notes = ?, reviewed_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [value.decision, req.user!.id, value.notes || null, event.id]
+  );
+
+  if (value.deactivateUser) {
+    await run('UPDATE users SET is_active = 0, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [event.user_id]);
+  }
+
+  const updated = await get(
+    `SELECT m.*, u.email AS user_email
+     FROM moderation_events m
+     LEFT JOIN users u ON u.id = m.user_id
+     WHERE m.id = ?`,
+    [event.id]
+  );
+
+  res.json({
+    message: 'Review recorded successfully',
+    event: formatModerationEvent(updated),
+    userDeactivated: value.deactivateUser
+  });
+}));
+
+export default router;
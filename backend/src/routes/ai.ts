@@ -1,115 +1,682 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import Joi from 'joi';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { getDatabase } from '../database/init';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { withTransaction } from '../database/transaction';
 import { promisify } from 'util';
 import { asyncHandler, createError } from '../middleware/errorHandler';
-import { authenticateToken, AuthenticatedRequest, requireCredits } from '../middleware/auth';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
 import { aiRateLimiterMiddleware } from '../middleware/rateLimiter';
+import { createImageUpload, discardUploadsOnError, getUploadedFiles, removeUploadedFiles } from '../middleware/upload';
+import { getModelIds, listProviders } from '../services/ai/registry';
+import { calculateCost, formatModelPricing, getModelPricing } from '../services/ai/pricing';
+import { addUsage, emptyUsage, totalTokens, usageFromRow } from '../services/ai/tokens';
+import { resolveModelForUser, ResolvedModel } from '../services/ai/userKeys';
+import { CompletionRequest } from '../services/ai/types';
+import { Attachment, ATTACHMENT_DIR, formatAttachment, getAttachmentPath, loadAttachments, MAX_ATTACHMENTS, readImages, readUploadedImages, recordAttachments } from '../services/ai/attachments';
+import { assertComplexityAllowed, assertGenerationQuota, assertModelAllowed, Complexity, getEntitlements, isModelAllowed } from '../services/entitlements';
+import { getFallbackModels, resolveModelChain, routeModel, streamWithFallback } from '../services/ai/routing';
+import { planHistory, prepareHistory } from '../services/ai/conversationHistory';
+import { parseGeneratedFiles } from '../services/ai/fileProtocol';
+import { createGenerationRequest, getMaxTokens } from '../services/ai/prompts';
+import { loadProjectMetadata, selectPromptTemplate } from '../services/ai/promptTemplates';
+import { createCacheKey, findCachedGeneration, formatCacheHit, isCacheEnabled, recordCacheEntry } from '../services/ai/generationCache';
+import { GENERATION_JOB, GenerationJobPayload } from '../services/ai/generationJobs';
+import { DEFAULT_REPAIR_ROUNDS, describeVerificationFailure, MAX_REPAIR_ROUNDS, verifyAndRepair, VerifiedGeneration } from '../services/ai/repair';
+import { cancelJob, enqueueJob, getJobForGeneration, waitForJob } from '../services/jobQueue';
+import { commitCredits, creditsForUsage, estimateRequestCredits, releaseCredits, reserveCredits } from '../services/credits';
+import { applyChangeset, Changeset, computeChangeset, IncomingFile, loadProjectFiles, summarizeChangeset, writeChangeset } from '../services/changesets';
+import { resolveBranch } from '../services/branches';
+import { applyEdits, EDIT_PROTOCOL_INSTRUCTIONS, FileEdit, FileEditResult, formatProjectFiles, parseEdits } from '../services/ai/editProtocol';
+import { retrieveProjectContext } from '../services/ai/retrieval';
+import { assertPromptAllowed, describeBlock, findStreamingBlocks, moderateContent } from '../services/ai/moderation';
 
 const router = express.Router();
 
-// Initialize AI clients
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+// Token budget for current project files sent as context in edit mode
+const EDIT_CONTEXT_TOKEN_BUDGET = 12000;
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
+// Token budget for project file chunks retrieved for a chat question
+const CHAT_CONTEXT_TOKEN_BUDGET = 4000;
+
+// Streamed characters held back from the client until the pattern filters have
+// seen what follows; longer than any secret or malware pattern needs to match
+const STREAM_HOLDBACK_LENGTH = 256;
+
+// Screenshots and mockups for image-to-code generation (multipart field `images`)
+const attachmentUpload = createImageUpload(ATTACHMENT_DIR);
 
 // Validation schemas
 const generateCodeSchema = Joi.object({
   prompt: Joi.string().min(10).max(2000).required(),
   techStack: Joi.string().valid('react', 'vue', 'angular', 'vanilla', 'next', 'nuxt').default('react'),
-  model: Joi.string().valid('gpt-4', 'gpt-3.5-turbo', 'claude-3-sonnet', 'claude-3-haiku').default('gpt-4'),
+  model: Joi.string().valid(...getModelIds()).optional(),
   projectId: Joi.string().uuid().optional(),
   includeFiles: Joi.boolean().default(true),
-  complexity: Joi.string().valid('simple', 'medium', 'complex').default('medium')
+  complexity: Joi.string().valid('simple', 'medium', 'complex').default('medium'),
+  background: Joi.boolean().default(false),
+  verify: Joi.boolean().default(true),
+  repairRounds: Joi.number().integer().min(0).max(MAX_REPAIR_ROUNDS).default(DEFAULT_REPAIR_ROUNDS),
+  cache: Joi.boolean().default(true)
 });
 
 const chatSchema = Joi.object({
   message: Joi.string().min(1).max(1000).required(),
+  model: Joi.string().valid(...getModelIds()).optional(),
+  projectId: Joi.string().uuid().optional(),
+  conversationId: Joi.string().uuid().optional(),
+  attachmentIds: Joi.array().items(Joi.string().uuid()).max(MAX_ATTACHMENTS).default([]),
+  generationId: Joi.string().uuid().optional()
+});
+
+const editCodeSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  prompt: Joi.string().min(3).max(2000).required(),
+  model: Joi.string().valid(...getModelIds()).optional(),
+  paths: Joi.array().items(Joi.string().max(255)).max(50).default([]),
+  apply: Joi.boolean().default(true),
+  branch: Joi.string().optional()
+});
+
+const applyGenerationSchema = Joi.object({
   projectId: Joi.string().uuid().optional(),
-  conversationId: Joi.string().uuid().optional()
+  branch: Joi.string().optional(),
+  mode: Joi.string().valid('merge', 'replace').default('merge'),
+  dryRun: Joi.boolean().default(false)
 });
 
 // Generate code from prompt
 router.post('/generate', 
   authenticateToken, 
-  requireCredits(1), 
   aiRateLimiterMiddleware, 
+  attachmentUpload.array('images', MAX_ATTACHMENTS),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { error, value } = generateCodeSchema.validate(req.body);
     if (error) {
       throw createError(error.details[0].message, 400);
     }
 
-    const { prompt, techStack, model, projectId, includeFiles, complexity } = value;
+    const { prompt, techStack, projectId, includeFiles, complexity, background, verify, repairRounds } = value;
+    const uploads = getUploadedFiles(req);
+    const model = await checkGenerationEntitlements(req, value.model, complexity);
+    await assertPromptAllowed({ userId: req.user!.id, endpoint: 'generate' }, prompt);
+    // Fail fast on unknown or unconfigured models instead of queueing a doomed job
+    const chain = await resolveModelChain(
+      req.user!.id,
+      [model, ...getFallbackModels(req.user!.plan, model)],
+      uploads.length > 0 ? 'vision' : 'code'
+    );
+    const { keySource } = chain[0];
     const db = getDatabase();
-    const run = promisify(db.run.bind(db));
+    const get = promisify(db.get.bind(db)) as QueryGet;
+    const run = promisify(db.run.bind(db)) as QueryRun;
 
-    // Create generation record
-    const generationId = uuidv4();
-    await run(
-      `INSERT INTO ai_generations (id, user_id, project_id, prompt, model, status)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [generationId, req.user!.id, projectId, prompt, model, 'pending']
+    // The template version is picked now so retries of the job use the same one
+    const template = await selectPromptTemplate(req.user!.id, techStack, complexity);
+    const images = await readUploadedImages(uploads);
+    const project = await loadProjectMetadata(req.user!.id, projectId);
+    const buildRequest = (resolved: ResolvedModel) =>
+      createGenerationRequest(prompt, techStack, resolved.model.id, complexity, resolved.model.maxTokens, images, {
+        template: template?.content,
+        project
+      });
+    const request = buildRequest(chain[0]);
+
+    // Identical requests resolve to the generation that answered them; requests with images always run
+    const cacheKey = value.cache && uploads.length === 0 && await isCacheEnabled(req.user!.id)
+      ? createCacheKey(req.user!.id, request, verify)
+      : null;
+    const cached = cacheKey ? await findCachedGeneration(req.user!.id, cacheKey) : null;
+
+    let generationId: string;
+    let jobId: string | null = null;
+    let attachments: Attachment[] = [];
+    if (cached) {
+      // Still in progress: wait for the original instead of starting another
+      generationId = cached.generationId;
+      jobId = cached.status === 'completed' ? null : (await getJobForGeneration(generationId))?.id || null;
+    } else {
+      // Hold the worst-case cost, on any model of the chain, until the job settles
+      // (requests on the user's own key are free)
+      generationId = uuidv4();
+      if (keySource === 'platform') {
+        await reserveCredits(req.user!.id, estimateChainCredits(chain, buildRequest, verify ? repairRounds : 0), generationId, 'Code generation');
+      }
+
+      // Create generation record; `model` is updated if a fallback answers
+      await run(
+        `INSERT INTO ai_generations (id, user_id, project_id, prompt, model, requested_model, status, key_source, prompt_template_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [generationId, req.user!.id, projectId, prompt, model, model, 'pending', keySource, template?.id || null]
+      );
+
+      if (cacheKey) {
+        await recordCacheEntry(req.user!.id, cacheKey, generationId);
+      }
+
+      attachments = await recordAttachments(req.user!.id, generationId, uploads);
+      res.locals.keepUploads = true;
+
+      // The queue owns the generation from here, so a dropped connection doesn't strand it
+      const payload: GenerationJobPayload = {
+        prompt,
+        techStack,
+        model,
+        complexity,
+        keySource,
+        verify,
+        repairRounds,
+        attachmentIds: attachments.map(attachment => attachment.id),
+        promptTemplateId: template?.id,
+        projectId,
+        fallbackModels: chain.slice(1).map(resolved => resolved.model.id)
+      };
+      jobId = await enqueueJob({
+        type: GENERATION_JOB,
+        userId: req.user!.id,
+        generationId,
+        payload
+      });
+    }
+
+    if (background) {
+      res.status(202).json({
+        generationId,
+        status: cached?.status === 'completed' ? 'completed' : 'queued',
+        statusUrl: `/api/ai/generations/${generationId}`,
+        attachments: attachments.map(formatAttachment),
+        cache: formatCacheHit(cached)
+      });
+      return;
+    }
+
+    const jobStatus = jobId ? await waitForJob(jobId) : 'completed';
+    const generation = await get(
+      `SELECT generated_code, model, requested_model, tokens_used, input_tokens, output_tokens, cached_tokens, cost, status,
+         error_message, verification_status, diagnostics, repair_history, moderation_status
+       FROM ai_generations WHERE id = ?`,
+      [generationId]
     );
 
+    if (jobStatus === 'cancelled') {
+      throw createError('Code generation was cancelled', 409);
+    }
+
+    if (generation.moderation_status === 'blocked') {
+      throw createError(generation.error_message, 422);
+    }
+
+    if (generation.verification_status === 'failed') {
+      throw createError(`${generation.error_message}. See GET /api/ai/generations/${generationId} for the diagnostics`, 422);
+    }
+
+    if (jobStatus !== 'completed' || generation.status !== 'completed') {
+      throw createError(`Code generation failed: ${generation.error_message || 'unknown error'}`, 500);
+    }
+
+    const generatedCode = generation.generated_code;
+
+    // Parse generated code into files if requested
+    const parsed = includeFiles ? parseGeneratedFiles(generatedCode, techStack) : null;
+
+    res.json({
+      generationId,
+      code: generatedCode,
+      files: parsed?.files || [],
+      fileErrors: parsed?.errors || [],
+      fileWarnings: parsed?.warnings || [],
+      outputFormat: parsed?.format,
+      verification: formatVerification(generation),
+      attachments: attachments.map(formatAttachment),
+      cache: formatCacheHit(cached),
+      tokensUsed: generation.tokens_used,
+      usage: usageFromRow(generation),
+      cost: generation.cost,
+      creditsCharged: keySource === 'platform' && !cached ? creditsForUsage(generation.model, usageFromRow(generation)) : 0,
+      keySource,
+      model: generation.model,
+      requestedModel: generation.requested_model || generation.model,
+      techStack
+    });
+  }),
+  discardUploadsOnError
+);
+
+// Stream code generation as Server-Sent Events
+router.post('/generate/stream',
+  authenticateToken,
+  aiRateLimiterMiddleware,
+  attachmentUpload.array('images', MAX_ATTACHMENTS),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    // Stop pulling tokens from the provider as soon as the client goes away. The
+    // request emits close once its body is read, so watch the response, and start
+    // before the first await so an early disconnect is not missed.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    const { error, value } = generateCodeSchema.validate(req.body);
+    if (error) {
+      throw createError(error.details[0].message, 400);
+    }
+
+    const { prompt, techStack, projectId, includeFiles, complexity, verify, repairRounds } = value;
+    const uploads = getUploadedFiles(req);
+    const model = await checkGenerationEntitlements(req, value.model, complexity);
+    await assertPromptAllowed({ userId: req.user!.id, endpoint: 'generate/stream' }, prompt);
+    let chain = await resolveModelChain(req.user!.id, [model, ...getFallbackModels(req.user!.plan, model)], 'streaming');
+    if (uploads.length > 0) {
+      if (!chain[0].model.capabilities.includes('vision')) {
+        throw createError(`Model ${model} does not support vision`, 400);
+      }
+      chain = chain.filter(resolved => resolved.model.capabilities.includes('vision'));
+    }
+    const { keySource } = chain[0];
+    const images = await readUploadedImages(uploads);
+    const template = await selectPromptTemplate(req.user!.id, techStack, complexity);
+    const project = await loadProjectMetadata(req.user!.id, projectId);
+    const buildRequest = (resolved: ResolvedModel) =>
+      createGenerationRequest(prompt, techStack, resolved.model.id, complexity, resolved.model.maxTokens, images, {
+        template: template?.content,
+        project
+      });
+    const request = buildRequest(chain[0]);
+
+    const cacheKey = value.cache && uploads.length === 0 && await isCacheEnabled(req.user!.id)
+      ? createCacheKey(req.user!.id, request, verify)
+      : null;
+    const cached = cacheKey ? await findCachedGeneration(req.user!.id, cacheKey) : null;
+
+    // Nobody is left to stream to
+    if (controller.signal.aborted) {
+      await removeUploadedFiles(uploads);
+      return;
+    }
+
+    // Reserve before the stream opens so a 402 is still a normal JSON error
+    const generationId = cached?.generationId || uuidv4();
+    if (keySource === 'platform' && !cached) {
+      await reserveCredits(
+        req.user!.id,
+        estimateChainCredits(chain, buildRequest, verify ? repairRounds : 0),
+        generationId,
+        'Streaming code generation'
+      );
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    sendEvent('start', { generationId, model, techStack, keySource, cache: formatCacheHit(cached) });
+
+    // Replay the earlier generation (once it finishes, if it is still running) without charging
+    if (cached) {
+      try {
+        const job = cached.status === 'completed' ? undefined : await getJobForGeneration(generationId);
+        if (job) {
+          await waitForJob(job.id);
+        }
+
+        const db = getDatabase();
+        const get = promisify(db.get.bind(db)) as QueryGet;
+        const generation = await get(
+          `SELECT generated_code, model, requested_model, tokens_used, input_tokens, output_tokens, cached_tokens, cost, status,
+             error_message, verification_status, diagnostics, repair_history
+           FROM ai_generations WHERE id = ?`,
+          [generationId]
+        );
+        if (generation.status !== 'completed') {
+          throw new Error(generation.error_message || 'the cached generation did not complete');
+        }
+
+        sendEvent('delta', { text: generation.generated_code });
+        const parsed = includeFiles ? parseGeneratedFiles(generation.generated_code, techStack) : null;
+        for (const file of parsed?.files || []) {
+          sendEvent('file', file);
+        }
+        const verification = formatVerification(generation);
+        if (verification && verification.status !== 'skipped') {
+          sendEvent('verification', verification);
+        }
+
+        sendEvent('done', {
+          generationId,
+          tokensUsed: generation.tokens_used,
+          usage: usageFromRow(generation),
+          cost: generation.cost,
+          creditsCharged: 0,
+          model: generation.model,
+          requestedModel: generation.requested_model || generation.model,
+          techStack,
+          fileCount: parsed?.files.length || 0,
+          fileErrors: parsed?.errors || [],
+          status: generation.status,
+          verificationStatus: generation.verification_status,
+          attachments: [],
+          cache: formatCacheHit(cached)
+        });
+      } catch (error: any) {
+        sendEvent('error', { error: `Code generation failed: ${error.message}` });
+      } finally {
+        res.end();
+      }
+      return;
+    }
+
+    let charged = false;
     try {
-      // Generate code based on model
-      let generatedCode: string;
+      // Falls back to the next model only while nothing has been streamed yet
+      const { resolved, request: usedRequest, stream, attempts } = await streamWithFallback(chain, buildRequest, controller.signal);
+      const usedModel = resolved.model.id;
+      if (attempts.length > 0) {
+        sendEvent('fallback', { model: usedModel, requestedModel: model, attempts });
+      }
+
+      let generatedCode = '';
       let tokensUsed = 0;
+      let usage = emptyUsage();
+      const emittedPaths = new Set<string>();
+      const emitNewFiles = (options: { partial: boolean }) => {
+        const parsed = parseGeneratedFiles(generatedCode, techStack, options);
+        for (const file of parsed.files) {
+          if (!emittedPaths.has(file.path)) {
+            emittedPaths.add(file.path);
+            sendEvent('file', file);
+          }
+        }
+        return parsed;
+      };
+
+      // Text reaches the client only after the pattern filters have seen it, with
+      // the newest characters held back so a secret is caught before any of it is sent
+      let sentLength = 0;
+      const sendCheckedText = (upTo: number) => {
+        if (upTo > sentLength) {
+          sendEvent('delta', { text: generatedCode.slice(sentLength, upTo) });
+          sentLength = upTo;
+        }
+      };
+
+      let streamBlocked = false;
+      for await (const chunk of stream) {
+        if (chunk.type === 'usage') {
+          tokensUsed = chunk.tokensUsed;
+          usage = chunk.usage;
+          continue;
+        }
+
+        generatedCode += chunk.text;
+        if (findStreamingBlocks(generatedCode).length > 0) {
+          // Leaving the loop closes the provider stream
+          streamBlocked = true;
+          break;
+        }
+        sendCheckedText(generatedCode.length - STREAM_HOLDBACK_LENGTH);
+
+        // A file boundary can only close on a chunk that ends a tag or a code fence
+        if (includeFiles && /[>`]/.test(chunk.text)) {
+          emitNewFiles({ partial: true });
+        }
+      }
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      // Logged for review like any blocked output, but neither stored nor charged
+      if (streamBlocked) {
+        const moderation = await moderateContent({ userId: req.user!.id, endpoint: 'generate/stream', generationId }, 'output', generatedCode);
+        sendEvent('error', { error: `Generated output was ${describeBlock(moderation)}` });
+        return;
+      }
+      sendCheckedText(generatedCode.length);
+
+      let fileErrors: string[] = [];
+      if (includeFiles) {
+        fileErrors = emitNewFiles({ partial: false }).errors;
+      }
+
+      // Check the finished output; repair rounds run without streaming
+      let verified: VerifiedGeneration | null = null;
+      if (verify) {
+        verified = await verifyAndRepair(resolved.provider, usedRequest, { text: generatedCode, tokensUsed, usage }, {
+          techStack,
+          maxRounds: repairRounds,
+          signal: controller.signal,
+          onRound: round => sendEvent('repair', round)
+        });
+
+        if (controller.signal.aborted) {
+          return;
+        }
 
-      if (model.startsWith('gpt')) {
-        const result = await generateWithOpenAI(prompt, techStack, model, complexity);
-        generatedCode = result.code;
-        tokensUsed = result.tokensUsed;
-      } else if (model.startsWith('claude')) {
-        const result = await generateWithClaude(prompt, techStack, model, complexity);
-        generatedCode = result.code;
-        tokensUsed = result.tokensUsed;
-      } else {
-        throw createError('Unsupported model', 400);
+        generatedCode = verified.text;
+        tokensUsed = verified.tokensUsed;
+        usage = verified.usage;
       }
 
-      // Calculate cost (simplified pricing)
-      const cost = calculateCost(model, tokensUsed);
+      // The full pipeline, including the classifier, runs before repaired files are sent
+      const moderation = await moderateContent({ userId: req.user!.id, endpoint: 'generate/stream', generationId }, 'output', generatedCode);
+      if (moderation.blocked) {
+        sendEvent('error', { error: `Generated output was ${describeBlock(moderation)}` });
+        return;
+      }
+
+      if (verified) {
+        // Send the repaired files again; clients replace files by path
+        const repairedPaths = new Set(verified.repairs.flatMap(round => round.repairedPaths));
+        if (includeFiles && repairedPaths.size > 0) {
+          const parsed = parseGeneratedFiles(generatedCode, techStack);
+          fileErrors = parsed.errors;
+          for (const file of parsed.files.filter(file => repairedPaths.has(file.path))) {
+            emittedPaths.add(file.path);
+            sendEvent('file', file);
+          }
+        }
+
+        sendEvent('verification', {
+          status: verified.verification.passed ? 'passed' : 'failed',
+          ...verified.verification
+        });
+      }
+
+      const failed = verified !== null && !verified.verification.passed;
+      const cost = calculateCost(usedModel, usage);
+
+      // Only a fully streamed generation is recorded and charged
+      const db = getDatabase();
+      const run = promisify(db.run.bind(db)) as QueryRun;
 
-      // Update generation record
       await run(
-        `UPDATE ai_generations 
-         SET generated_code = ?, tokens_used = ?, cost = ?, status = ?, completed_at = CURRENT_TIMESTAMP
-         WHERE id = ?`,
-        [generatedCode, tokensUsed, cost, 'completed', generationId]
+        `INSERT INTO ai_generations (id, user_id, project_id, prompt, model, requested_model, generated_code, tokens_used, input_tokens,
+           output_tokens, cached_tokens, cost, status, error_message, key_source, verification_status, diagnostics, repair_history,
+           prompt_template_id, moderation_status, completed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        [
+          generationId, req.user!.id, projectId, prompt, usedModel, model, generatedCode, tokensUsed,
+          usage.inputTokens, usage.outputTokens, usage.cachedTokens, cost,
+          failed ? 'error' : 'completed',
+          failed ? describeVerificationFailure(verified!) : null,
+          keySource,
+          verified ? (failed ? 'failed' : 'passed') : 'skipped',
+          verified ? JSON.stringify(verified.verification) : null,
+          verified ? JSON.stringify(verified.repairs) : null,
+          template?.id || null,
+          moderation.findings.length > 0 ? 'flagged' : 'passed'
+        ]
       );
 
-      // Deduct credits
-      await run(
-        'UPDATE users SET credits = credits - 1 WHERE id = ?',
-        [req.user!.id]
+      if (cacheKey && !failed) {
+        await recordCacheEntry(req.user!.id, cacheKey, generationId);
+      }
+
+      const attachments = await recordAttachments(req.user!.id, generationId, uploads);
+      res.locals.keepUploads = true;
+
+      const creditsCharged = await commitCredits(
+        req.user!.id,
+        generationId,
+        creditsForUsage(usedModel, usage),
+        'Streaming code generation'
       );
+      charged = true;
 
-      // Parse generated code into files if requested
-      let files: any[] = [];
-      if (includeFiles) {
-        files = parseCodeIntoFiles(generatedCode, techStack);
+      sendEvent('done', {
+        generationId,
+        tokensUsed,
+        usage,
+        cost,
+        creditsCharged,
+        model: usedModel,
+        requestedModel: model,
+        techStack,
+        fileCount: emittedPaths.size,
+        fileErrors,
+        status: failed ? 'error' : 'completed',
+        verificationStatus: verified ? (failed ? 'failed' : 'passed') : 'skipped',
+        attachments: attachments.map(formatAttachment),
+        cache: formatCacheHit(null)
+      });
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        console.error('Streaming generation failed:', error);
+        sendEvent('error', { error: `Code generation failed: ${error.message}` });
+      }
+    } finally {
+      // Aborted or failed streams are not charged, and their images are not kept
+      if (!charged) {
+        await releaseCredits(req.user!.id, generationId).catch(releaseError => {
+          console.error('Failed to release credits:', releaseError);
+        });
+      }
+      if (!res.locals.keepUploads) {
+        await removeUploadedFiles(uploads);
+      }
+      res.end();
+    }
+  }),
+  discardUploadsOnError
+);
+
+// Edit existing project files with search/replace patches instead of regenerating
+router.post('/edit',
+  authenticateToken,
+  aiRateLimiterMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { error, value } = editCodeSchema.validate(req.body);
+    if (error) {
+      throw createError(error.details[0].message, 400);
+    }
+
+    const { projectId, prompt, paths, apply } = value;
+    const model = await checkGenerationEntitlements(req, value.model, 'medium');
+    await assertPromptAllowed({ userId: req.user!.id, endpoint: 'edit' }, prompt);
+    const { provider, model: modelInfo, keySource } = await resolveModelForUser(req.user!.id, model, 'code');
+    const db = getDatabase();
+    const get = promisify(db.get.bind(db)) as QueryGet;
+    const run = promisify(db.run.bind(db)) as QueryRun;
+
+    const project = await get(
+      'SELECT id, tech_stack, current_branch FROM projects WHERE id = ? AND user_id = ?',
+      [projectId, req.user!.id]
+    );
+
+    if (!project) {
+      throw createError('Project not found or access denied', 404);
+    }
+
+    const branch = await resolveBranch(project, value.branch);
+    const current = await loadProjectFiles(projectId, branch);
+    if (current.size === 0) {
+      throw createError('Project has no files to edit yet; use /api/ai/generate first', 400);
+    }
+
+    const request: CompletionRequest = {
+      model,
+      system: createEditSystemPrompt(project.tech_stack, formatProjectFiles(current, EDIT_CONTEXT_TOKEN_BUDGET, paths)),
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: Math.min(getMaxTokens('medium'), modelInfo.maxTokens),
+      temperature: 0.2,
+      task: 'edit',
+      techStack: project.tech_stack
+    };
+
+    const generationId = uuidv4();
+    if (keySource === 'platform') {
+      await reserveCredits(req.user!.id, estimateRequestCredits(request), generationId, 'Code edit');
+    }
+
+    // Create generation record
+    await run(
+      `INSERT INTO ai_generations (id, user_id, project_id, prompt, model, status, mode, key_source)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [generationId, req.user!.id, projectId, prompt, model, 'pending', 'edit', keySource]
+    );
+
+    try {
+      const { text: editOutput, tokensUsed, usage } = await provider.complete(request);
+
+      const moderation = await moderateContent({ userId: req.user!.id, endpoint: 'edit', generationId }, 'output', editOutput);
+      if (moderation.blocked) {
+        await run(`UPDATE ai_generations SET moderation_status = 'blocked' WHERE id = ?`, [generationId]);
+        throw createError(`Edit output was ${describeBlock(moderation)}`, 422);
       }
 
+      const cost = calculateCost(model, usage);
+
+      const parsed = parseEdits(editOutput);
+      const applied = applyEdits(current, parsed.edits);
+      const changeset = computeChangeset(current, applied.files);
+      changeset.deleted = applied.deleted;
+
+      // Applied before anything is charged or marked completed, so an edit that can't
+      // be written fails like any other
+      const snapshot = apply
+        ? await applyChangeset(projectId, changeset, { source: 'edit', branch, createdBy: req.user!.id, generationId })
+        : null;
+
+      const creditsCharged = await commitCredits(req.user!.id, generationId, creditsForUsage(model, usage), 'Code edit');
+
+      await run(
+        `UPDATE ai_generations 
+         SET generated_code = ?, tokens_used = ?, input_tokens = ?, output_tokens = ?, cached_tokens = ?, cost = ?, status = ?,
+             moderation_status = ?, completed_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [
+          editOutput, tokensUsed, usage.inputTokens, usage.outputTokens, usage.cachedTokens, cost, 'completed',
+          moderation.findings.length > 0 ? 'flagged' : 'passed', generationId
+        ]
+      );
+
       res.json({
         generationId,
-        code: generatedCode,
-        files,
+        applied: apply,
+        branch,
+        version: snapshot?.version ?? null,
+        changes: summarizeChangeset(changeset),
+        results: applied.results,
+        editErrors: parsed.errors,
         tokensUsed,
+        usage,
         cost,
-        model,
-        techStack
+        creditsCharged,
+        keySource,
+        model
       });
 
     } catch (error: any) {
+      await releaseCredits(req.user!.id, generationId);
+
       // Update generation record with error
       await run(
         `UPDATE ai_generations 
@@ -118,7 +685,11 @@ router.post('/generate',
         ['error', error.message, generationId]
       );
 
-      throw createError(`Code generation failed: ${error.message}`, 500);
+      // Blocked output, conflicting paths and the like keep their status
+      if (error.statusCode) {
+        throw error;
+      }
+      throw createError(`Code edit failed: ${error.message}`, 500);
     }
   })
 );
@@ -126,7 +697,6 @@ router.post('/generate',
 // Chat with AI about project
 router.post('/chat', 
   authenticateToken, 
-  requireCredits(1), 
   aiRateLimiterMiddleware,
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { error, value } = chatSchema.validate(req.body);
@@ -134,81 +704,222 @@ router.post('/chat',
       throw createError(error.details[0].message, 400);
     }
 
-    const { message, projectId, conversationId } = value;
+    const { message, conversationId } = value;
+    const model = value.model || getEntitlements(req.user!.plan).defaultModel;
+    assertModelAllowed(req.user!.plan, model);
+    await assertPromptAllowed({ userId: req.user!.id, endpoint: 'chat' }, message);
+
+    // Images from an earlier generation (or picked by id) are sent with this turn only
+    const attachments = await loadAttachments(req.user!.id, { ids: value.attachmentIds, generationId: value.generationId });
+    const { provider, keySource } = await resolveModelForUser(req.user!.id, model, attachments.length > 0 ? 'vision' : 'chat');
+    const db = getDatabase();
+    const get = promisify(db.get.bind(db)) as QueryGet;
+    const run = promisify(db.run.bind(db)) as QueryRun;
+
+    // Continue an existing conversation or start a new one
+    let conversation: any;
+    const isNewConversation = !conversationId;
+    if (conversationId) {
+      conversation = await get(
+        'SELECT id, project_id, summary, summarized_count FROM conversations WHERE id = ? AND user_id = ?',
+        [conversationId, req.user!.id]
+      );
+
+      if (!conversation) {
+        throw createError('Conversation not found', 404);
+      }
+    } else {
+      if (value.projectId) {
+        const project = await get(
+          'SELECT id FROM projects WHERE id = ? AND user_id = ?',
+          [value.projectId, req.user!.id]
+        );
+
+        if (!project) {
+          throw createError('Project not found or access denied', 404);
+        }
+      }
+
+      conversation = {
+        id: uuidv4(),
+        project_id: value.projectId || null,
+        summary: null,
+        summarized_count: 0
+      };
+    }
+
+    // The assistant message id doubles as the credit reservation reference
+    const assistantMessageId = uuidv4();
 
     try {
       // Get project context if provided
       let projectContext = '';
-      if (projectId) {
-        const db = getDatabase();
-        const get = promisify(db.get.bind(db));
-        
+      let contextPaths: string[] = [];
+      if (conversation.project_id) {
         const project = await get(
           'SELECT name, description, tech_stack, code_content FROM projects WHERE id = ? AND user_id = ?',
-          [projectId, req.user!.id]
+          [conversation.project_id, req.user!.id]
         );
 
         if (project) {
+          // The project's files most relevant to the question; projects without files fall back to code_content
+          const retrieved = await retrieveProjectContext(conversation.project_id, message, CHAT_CONTEXT_TOKEN_BUDGET);
+          contextPaths = retrieved.paths;
+
           projectContext = `
 Project: ${project.name}
 Description: ${project.description}
 Tech Stack: ${project.tech_stack}
-Current Code: ${project.code_content?.substring(0, 1000) || 'No code yet'}
+${retrieved.fileCount > 0
+    ? `Relevant project files:\n${retrieved.context}`
+    : `Current Code: ${project.code_content?.substring(0, 1000) || 'No code yet'}`}
           `;
         }
       }
 
-      // Generate response using OpenAI
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert software developer and coding assistant. Help users with their coding questions and provide practical solutions.
+      const historyPlan = await planHistory(conversation, model);
+      const images = attachments.length > 0 ? await readImages(attachments) : null;
+      const buildRequest = (summary: string | null): CompletionRequest => ({
+        model,
+        system: `You are an expert software developer and coding assistant. Help users with their coding questions and provide practical solutions.
             
-${projectContext ? `Context about the user's project:\n${projectContext}` : ''}`
-          },
-          {
-            role: 'user',
-            content: message
-          }
+${projectContext ? `Context about the user's project:\n${projectContext}` : ''}
+${summary ? `Summary of the earlier conversation:\n${summary}` : ''}`,
+        messages: [
+          ...historyPlan.recent,
+          { role: 'user', content: message, ...(images ? { images } : {}) }
         ],
-        max_tokens: 1000,
+        maxTokens: 1000,
         temperature: 0.7
       });
 
-      const response = completion.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
+      // Reserve for the history summary and the reply before either is requested
+      if (keySource === 'platform') {
+        const summaryCredits = historyPlan.summaryRequest ? estimateRequestCredits(historyPlan.summaryRequest) : 0;
+        await reserveCredits(
+          req.user!.id,
+          estimateRequestCredits(buildRequest(conversation.summary)) + summaryCredits,
+          assistantMessageId,
+          'Chat message'
+        );
+      }
 
-      // Deduct credits
-      const db = getDatabase();
-      const run = promisify(db.run.bind(db));
+      const history = await prepareHistory(conversation, historyPlan, provider);
+      const request = buildRequest(history.summary);
+
+      const completion = await provider.complete(request);
+
+      const response = completion.text || 'Sorry, I could not generate a response.';
+      const usage = addUsage(completion.usage, history.usage);
+      const tokensUsed = totalTokens(usage);
+      const cost = calculateCost(model, usage);
+
+      const moderation = await moderateContent({ userId: req.user!.id, endpoint: 'chat' }, 'output', response);
+      if (moderation.blocked) {
+        throw createError(`Response was ${describeBlock(moderation)}`, 422);
+      }
+
+      // Store the conversation and both turns only once the model has answered
+      if (isNewConversation) {
+        await run(
+          `INSERT INTO conversations (id, user_id, project_id, title, model)
+           VALUES (?, ?, ?, ?, ?)`,
+          [conversation.id, req.user!.id, conversation.project_id, createConversationTitle(message), model]
+        );
+      }
+
+      const userMessageId = uuidv4();
+      const attachmentIds = attachments.map(attachment => attachment.id);
+      await run(
+        `INSERT INTO conversation_messages (id, conversation_id, role, content, attachment_ids)
+         VALUES (?, ?, ?, ?, ?)`,
+        [userMessageId, conversation.id, 'user', message, attachmentIds.length > 0 ? JSON.stringify(attachmentIds) : null]
+      );
+      await run(
+        `INSERT INTO conversation_messages (id, conversation_id, role, content, model, tokens_used, input_tokens, output_tokens,
+           cached_tokens, cost)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          assistantMessageId, conversation.id, 'assistant', response, model, tokensUsed,
+          usage.inputTokens, usage.outputTokens, usage.cachedTokens, cost
+        ]
+      );
+      // Usage is reported from here, which forking or deleting the conversation leaves alone
+      await run(
+        `INSERT INTO chat_usage (id, user_id, project_id, message_id, model, tokens_used, input_tokens, output_tokens,
+           cached_tokens, cost)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(), req.user!.id, conversation.project_id, assistantMessageId, model, tokensUsed,
+          usage.inputTokens, usage.outputTokens, usage.cachedTokens, cost
+        ]
+      );
       await run(
-        'UPDATE users SET credits = credits - 1 WHERE id = ?',
-        [req.user!.id]
+        'UPDATE conversations SET model = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [model, conversation.id]
+      );
+
+      const creditsCharged = await commitCredits(
+        req.user!.id,
+        assistantMessageId,
+        creditsForUsage(model, usage),
+        'Chat message'
       );
 
       res.json({
         response,
-        conversationId: conversationId || uuidv4(),
-        tokensUsed: completion.usage?.total_tokens || 0
+        conversationId: conversation.id,
+        messageId: assistantMessageId,
+        attachmentIds,
+        contextPaths,
+        tokensUsed,
+        usage,
+        cost,
+        creditsCharged,
+        keySource
       });
 
     } catch (error: any) {
+      // No-op once committed, and when the reservation itself was refused
+      await releaseCredits(req.user!.id, assistantMessageId);
+
+      if (error.statusCode === 402 || error.statusCode === 422) {
+        throw error;
+      }
       throw createError(`Chat failed: ${error.message}`, 500);
     }
   })
 );
 
+// List models from configured providers
+router.get('/models', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const entitlements = getEntitlements(req.user!.plan);
+  const models = listProviders()
+    .filter(provider => provider.isAvailable())
+    .flatMap(provider => provider.models.map(model => ({
+      id: model.id,
+      name: model.name,
+      provider: provider.id,
+      pricing: formatModelPricing(getModelPricing(model.id)),
+      maxTokens: model.maxTokens,
+      capabilities: model.capabilities,
+      allowed: isModelAllowed(entitlements, model.id)
+    })));
+
+  res.json({ models });
+}));
+
 // Get generation history
 router.get('/generations', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const all = promisify(db.all.bind(db));
+  const all = promisify(db.all.bind(db)) as QueryAll;
 
   const { page = 1, limit = 10, projectId } = req.query;
   const offset = (Number(page) - 1) * Number(limit);
 
   let query = `
-    SELECT id, project_id, prompt, model, status, tokens_used, cost, created_at, completed_at
+    SELECT id, project_id, prompt, model, requested_model, status, verification_status, tokens_used, input_tokens, output_tokens,
+      cached_tokens, cost, created_at, completed_at
     FROM ai_generations 
     WHERE user_id = ?
   `;
@@ -230,8 +941,11 @@ router.get('/generations', authenticateToken, asyncHandler(async (req: Authentic
       projectId: gen.project_id,
       prompt: gen.prompt,
       model: gen.model,
+      requestedModel: gen.requested_model || gen.model,
       status: gen.status,
+      verificationStatus: gen.verification_status,
       tokensUsed: gen.tokens_used,
+      usage: usageFromRow(gen),
       cost: gen.cost,
       createdAt: gen.created_at,
       completedAt: gen.completed_at
@@ -243,128 +957,266 @@ router.get('/generations', authenticateToken, asyncHandler(async (req: Authentic
   });
 }));
 
-// Helper functions
-async function generateWithOpenAI(prompt: string, techStack: string, model: string, complexity: string) {
-  const systemPrompt = createSystemPrompt(techStack, complexity);
-  
-  const completion = await openai.chat.completions.create({
-    model: model,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: prompt }
-    ],
-    max_tokens: getMaxTokens(complexity),
-    temperature: 0.7
+// Get a single generation with its job status (for polling background generations)
+router.get('/generations/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const generation = await get(
+    `SELECT g.*, p.tech_stack AS project_tech_stack, t.version AS prompt_template_version
+     FROM ai_generations g
+     LEFT JOIN projects p ON p.id = g.project_id
+     LEFT JOIN prompt_templates t ON t.id = g.prompt_template_id
+     WHERE g.id = ? AND g.user_id = ?`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  const job = await getJobForGeneration(generation.id);
+  const attachments = await loadAttachments(req.user!.id, { generationId: generation.id });
+  const techStack = job?.payload.techStack || generation.project_tech_stack || 'react';
+  const parsed = generation.status === 'completed' && generation.mode !== 'edit' && generation.generated_code
+    ? parseGeneratedFiles(generation.generated_code, techStack)
+    : null;
+
+  res.json({
+    generation: {
+      id: generation.id,
+      projectId: generation.project_id,
+      prompt: generation.prompt,
+      model: generation.model,
+      requestedModel: generation.requested_model || generation.model,
+      mode: generation.mode,
+      status: generation.status,
+      errorMessage: generation.error_message,
+      moderationStatus: generation.moderation_status,
+      code: generation.generated_code,
+      files: parsed?.files || [],
+      fileErrors: parsed?.errors || [],
+      verification: formatVerification(generation),
+      attachments: attachments.map(formatAttachment),
+      promptTemplate: generation.prompt_template_id
+        ? { id: generation.prompt_template_id, version: generation.prompt_template_version }
+        : null,
+      tokensUsed: generation.tokens_used,
+      usage: usageFromRow(generation),
+      cost: generation.cost,
+      createdAt: generation.created_at,
+      completedAt: generation.completed_at,
+      appliedAt: generation.applied_at
+    },
+    job: job ? {
+      id: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      lastError: job.last_error,
+      nextAttemptAt: job.status === 'queued' ? job.run_after : null,
+      finishedAt: job.finished_at
+    } : null
   });
+}));
 
-  return {
-    code: completion.choices[0]?.message?.content || '',
-    tokensUsed: completion.usage?.total_tokens || 0
-  };
-}
+// Download an image attached to a generation or chat turn
+router.get('/attachments/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const [attachment] = await loadAttachments(req.user!.id, { ids: [req.params.id] });
+
+  res.type(attachment.mime_type);
+  res.sendFile(getAttachmentPath(attachment));
+}));
+
+// Cancel a queued or running generation
+router.post('/generations/:id/cancel', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const generation = await get(
+    'SELECT id, status FROM ai_generations WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
 
-async function generateWithClaude(prompt: string, techStack: string, model: string, complexity: string) {
-  const systemPrompt = createSystemPrompt(techStack, complexity);
-  
-  const message = await anthropic.messages.create({
-    model: model,
-    max_tokens: getMaxTokens(complexity),
-    messages: [
-      { role: 'user', content: `${systemPrompt}\n\n${prompt}` }
-    ]
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  const job = await getJobForGeneration(generation.id);
+  if (!job || !(await cancelJob(job.id))) {
+    throw createError(`Generation cannot be cancelled (status: ${generation.status})`, 409);
+  }
+
+  await run(
+    `UPDATE ai_generations
+     SET status = ?, error_message = ?, completed_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status IN ('pending', 'running')`,
+    ['cancelled', 'Cancelled by user', generation.id]
+  );
+  await releaseCredits(req.user!.id, generation.id, 'Generation cancelled');
+
+  res.json({
+    message: 'Generation cancelled',
+    generationId: generation.id,
+    status: 'cancelled'
   });
+}));
+
+// Apply a completed generation's files to a project (or preview the changes with dryRun)
+router.post('/generations/:id/apply', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = applyGenerationSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const generation = await get(
+    'SELECT id, project_id, generated_code, status, mode FROM ai_generations WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  if (generation.status !== 'completed') {
+    throw createError('Only completed generations can be applied', 409);
+  }
+
+  const projectId = value.projectId || generation.project_id;
+  if (!projectId) {
+    throw createError('projectId is required for generations not linked to a project', 400);
+  }
 
-  const content = message.content[0];
+  const project = await get(
+    'SELECT id, tech_stack, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [projectId, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const branch = await resolveBranch(project, value.branch);
+  let edits: FileEdit[] | null = null;
+  let files: IncomingFile[] = [];
+  let fileErrors: string[];
+
+  if (generation.mode === 'edit') {
+    const parsed = parseEdits(generation.generated_code || '');
+    edits = parsed.edits;
+    fileErrors = parsed.errors;
+  } else {
+    const parsed = parseGeneratedFiles(generation.generated_code || '', project.tech_stack);
+    if (parsed.files.length === 0) {
+      throw createError('Generation does not contain any files', 422);
+    }
+    files = parsed.files;
+    fileErrors = parsed.errors;
+  }
+
+  // The branch's files are read, diffed and written in one transaction, so nothing
+  // saved meanwhile is overwritten
+  const { changeset, results, snapshot } = await withTransaction(async () => {
+    const current = await loadProjectFiles(projectId, branch);
+    let changeset: Changeset;
+    let results: FileEditResult[] | undefined;
+
+    if (edits) {
+      // Edits are re-applied to the current tree, so manual changes since then surface as failed hunks
+      const applied = applyEdits(current, edits);
+      changeset = computeChangeset(current, applied.files);
+      changeset.deleted = applied.deleted;
+      results = applied.results;
+    } else {
+      changeset = computeChangeset(current, files, value.mode);
+    }
+
+    const snapshot = value.dryRun
+      ? null
+      : await writeChangeset(projectId, changeset, {
+        source: generation.mode === 'edit' ? 'edit' : 'generation',
+        branch,
+        createdBy: req.user!.id,
+        generationId: generation.id
+      });
+
+    return { changeset, results, snapshot };
+  });
+
+  res.json({
+    message: value.dryRun ? 'Dry run completed' : 'Generation applied successfully',
+    generationId: generation.id,
+    projectId,
+    branch,
+    mode: value.mode,
+    dryRun: value.dryRun,
+    version: snapshot?.version ?? null,
+    changes: summarizeChangeset(changeset),
+    results,
+    fileErrors
+  });
+}));
+
+// Helper functions
+function formatVerification(generation: any) {
+  if (!generation.verification_status) {
+    return null;
+  }
+
+  const result = generation.diagnostics ? JSON.parse(generation.diagnostics) : null;
   return {
-    code: content.type === 'text' ? content.text : '',
-    tokensUsed: message.usage.input_tokens + message.usage.output_tokens
+    status: generation.verification_status,
+    errorCount: result?.errorCount || 0,
+    warningCount: result?.warningCount || 0,
+    diagnostics: result?.diagnostics || [],
+    repairs: generation.repair_history ? JSON.parse(generation.repair_history) : []
   };
 }
 
-function createSystemPrompt(techStack: string, complexity: string): string {
-  return `You are an expert ${techStack} developer. Generate clean, production-ready code based on the user's requirements.
+// Requests without a model are routed by complexity
+async function checkGenerationEntitlements(req: AuthenticatedRequest, requestedModel: string | undefined, complexity: Complexity): Promise<string> {
+  const { plan, id } = req.user!;
+  const { model } = routeModel(plan, complexity, requestedModel);
 
-Tech Stack: ${techStack}
-Complexity Level: ${complexity}
+  assertModelAllowed(plan, model);
+  assertComplexityAllowed(plan, complexity);
+  await assertGenerationQuota(id, plan);
 
-Guidelines:
-- Write modern, clean, and well-structured code
-- Include proper error handling
-- Add helpful comments
-- Follow best practices for ${techStack}
-- Make the code responsive and accessible
-- Include necessary imports and dependencies
-${complexity === 'complex' ? '- Implement advanced features and optimizations' : ''}
-${complexity === 'simple' ? '- Keep the implementation straightforward and minimal' : ''}
-
-Provide complete, working code that can be directly used in a project.`;
+  return model;
 }
 
-function getMaxTokens(complexity: string): number {
-  switch (complexity) {
-    case 'simple': return 1500;
-    case 'medium': return 3000;
-    case 'complex': return 4000;
-    default: return 3000;
-  }
+// Reserve enough for whichever model of the chain ends up answering
+function estimateChainCredits(
+  chain: ResolvedModel[],
+  buildRequest: (resolved: ResolvedModel) => CompletionRequest,
+  repairRounds: number
+): number {
+  return Math.max(...chain.map(resolved => estimateRequestCredits(buildRequest(resolved), repairRounds)));
 }
 
-function calculateCost(model: string, tokensUsed: number): number {
-  // Simplified cost calculation (in USD)
-  const rates = {
-    'gpt-4': 0.03 / 1000,
-    'gpt-3.5-turbo': 0.002 / 1000,
-    'claude-3-sonnet': 0.015 / 1000,
-    'claude-3-haiku': 0.0025 / 1000
-  };
-
-  const rate = rates[model as keyof typeof rates] || 0.01 / 1000;
-  return tokensUsed * rate;
+function createConversationTitle(message: string): string {
+  const title = message.trim().replace(/\s+/g, ' ');
+  return title.length > 60 ? `${title.substring(0, 57)}...` : title;
 }
 
-function parseCodeIntoFiles(code: string, techStack: string): any[] {
-  // Simple code parsing - in production, you'd want more sophisticated parsing
-  const files: any[] = [];
-
-  // Extract different file types based on code blocks
-  const codeBlocks = code.match(/```(\w+)?\n([\s\S]*?)```/g) || [];
-  
-  codeBlocks.forEach((block, index) => {
-    const match = block.match(/```(\w+)?\n([\s\S]*?)```/);
-    if (match) {
-      const language = match[1] || 'text';
-      const content = match[2].trim();
-      
-      let fileName = `file${index + 1}`;
-      let fileType = language;
-
-      // Determine file name and type based on content and language
-      if (language === 'jsx' || language === 'tsx') {
-        fileName = `Component${index + 1}.${language}`;
-        fileType = 'component';
-      } else if (language === 'css') {
-        fileName = `styles${index + 1}.css`;
-        fileType = 'stylesheet';
-      } else if (language === 'json') {
-        fileName = content.includes('"name"') ? 'package.json' : `config${index + 1}.json`;
-        fileType = 'config';
-      } else if (language === 'html') {
-        fileName = 'index.html';
-        fileType = 'markup';
-      }
+function createEditSystemPrompt(techStack: string, projectFiles: string): string {
+  return `You are an expert ${techStack} developer making targeted changes to an existing project.
 
-      files.push({
-        id: uuidv4(),
-        path: fileName,
-        content,
-        type: fileType,
-        language,
-        size: content.length
-      });
-    }
-  });
+Tech Stack: ${techStack}
+
+Current project files:
+${projectFiles}
+
+Guidelines:
+- Keep the existing structure, naming and style
+- Change only what the request needs and leave unrelated code untouched
+- Keep imports and references consistent across files
 
-  return files;
+${EDIT_PROTOCOL_INSTRUCTIONS}`;
 }
 
 export default router;
\ No newline at end of file
@@ -3,14 +3,18 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import Joi from 'joi';
-import { getDatabase } from '../database/init';
+import { getDatabase, QueryGet, QueryRun } from '../database/init';
 import { promisify } from 'util';
 import { asyncHandler, createError } from '../middleware/errorHandler';
 import { authRateLimiterMiddleware } from '../middleware/rateLimiter';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { grantCredits } from '../services/credits';
 
 const router = express.Router();
 
+// Credits granted to every new account
+const SIGNUP_CREDITS = 10;
+
 // Validation schemas
 const registerSchema = Joi.object({
   email: Joi.string().email().required(),
@@ -32,8 +36,8 @@ router.post('/register', authRateLimiterMiddleware, asyncHandler(async (req, res
 
   const { email, password, displayName } = value;
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Check if user already exists
   const existingUser = await get('SELECT id FROM users WHERE email = ?', [email]);
@@ -50,8 +54,9 @@ router.post('/register', authRateLimiterMiddleware, asyncHandler(async (req, res
   await run(
     `INSERT INTO users (id, email, password_hash, display_name, plan, credits) 
      VALUES (?, ?, ?, ?, ?, ?)`,
-    [userId, email, passwordHash, displayName || email.split('@')[0], 'free', 10]
+    [userId, email, passwordHash, displayName || email.split('@')[0], 'free', 0]
   );
+  const credits = await grantCredits(userId, SIGNUP_CREDITS, { description: 'Signup bonus' });
 
   // Create session
   const sessionId = uuidv4();
@@ -75,7 +80,7 @@ router.post('/register', authRateLimiterMiddleware, asyncHandler(async (req, res
       email,
       displayName: displayName || email.split('@')[0],
       plan: 'free',
-      credits: 10
+      credits
     },
     token
   });
@@ -90,8 +95,8 @@ router.post('/login', authRateLimiterMiddleware, asyncHandler(async (req, res) =
 
   const { email, password } = value;
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Find user
   const user = await get(
@@ -143,10 +148,10 @@ router.post('/login', authRateLimiterMiddleware, asyncHandler(async (req, res) =
 // Get current user
 router.get('/me', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
 
   const user = await get(
-    `SELECT id, email, display_name, avatar_url, plan, credits, created_at, last_login 
+    `SELECT id, email, display_name, avatar_url, plan, credits, role, created_at, last_login 
      FROM users WHERE id = ?`,
     [req.user!.id]
   );
@@ -163,6 +168,7 @@ router.get('/me', authenticateToken, asyncHandler(async (req: AuthenticatedReque
       avatarUrl: user.avatar_url,
       plan: user.plan,
       credits: user.credits,
+      role: user.role,
       createdAt: user.created_at,
       lastLogin: user.last_login
     }
@@ -178,7 +184,7 @@ router.post('/logout', authenticateToken, asyncHandler(async (req: Authenticated
     const decoded = jwt.decode(token) as any;
     if (decoded && decoded.sessionId) {
       const db = getDatabase();
-      const run = promisify(db.run.bind(db));
+      const run = promisify(db.run.bind(db)) as QueryRun;
       
       // Remove session
       await run('DELETE FROM user_sessions WHERE id = ?', [decoded.sessionId]);
@@ -198,7 +204,7 @@ router.post('/refresh', authenticateToken, asyncHandler(async (req: Authenticate
   );
 
   const db = getDatabase();
-  const run = promisify(db.run.bind(db));
+  const run = promisify(db.run.bind(db)) as QueryRun;
   
   const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
   await run(
@@ -0,0 +1,238 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import Joi from 'joi';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { promisify } from 'util';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation schemas
+const renameConversationSchema = Joi.object({
+  title: Joi.string().min(1).max(100).required()
+});
+
+const forkConversationSchema = Joi.object({
+  messageId: Joi.string().uuid().optional(),
+  title: Joi.string().min(1).max(100).optional()
+});
+
+// List conversations for user, optionally scoped to a project
+router.get('/', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const { page = 1, limit = 20, projectId } = req.query;
+  const offset = (Number(page) - 1) * Number(limit);
+
+  let query = `
+    SELECT c.id, c.project_id, c.title, c.model, c.forked_from, c.created_at, c.updated_at,
+           (SELECT COUNT(*) FROM conversation_messages WHERE conversation_id = c.id) as message_count
+    FROM conversations c
+    WHERE c.user_id = ?
+  `;
+  const params: any[] = [req.user!.id];
+
+  if (projectId) {
+    query += ' AND c.project_id = ?';
+    params.push(projectId);
+  }
+
+  query += ' ORDER BY c.updated_at DESC LIMIT ? OFFSET ?';
+  params.push(Number(limit), offset);
+
+  const conversations = await all(query, params);
+
+  res.json({
+    conversations: conversations.map(conversation => ({
+      id: conversation.id,
+      projectId: conversation.project_id,
+      title: conversation.title,
+      model: conversation.model,
+      forkedFrom: conversation.forked_from,
+      messageCount: conversation.message_count,
+      createdAt: conversation.created_at,
+      updatedAt: conversation.updated_at
+    })),
+    pagination: {
+      page: Number(page),
+      limit: Number(limit)
+    }
+  });
+}));
+
+// Get conversation with full message history
+router.get('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const conversation = await get(
+    'SELECT * FROM conversations WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!conversation) {
+    throw createError('Conversation not found', 404);
+  }
+
+  const messages = await all(
+    `SELECT id, role, content, model, tokens_used, attachment_ids, created_at
+     FROM conversation_messages
+     WHERE conversation_id = ?
+     ORDER BY created_at ASC, rowid ASC`,
+    [conversation.id]
+  );
+
+  res.json({
+    conversation: {
+      id: conversation.id,
+      projectId: conversation.project_id,
+      title: conversation.title,
+      model: conversation.model,
+      summary: conversation.summary,
+      forkedFrom: conversation.forked_from,
+      createdAt: conversation.created_at,
+      updatedAt: conversation.updated_at,
+      messages: messages.map(message => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        model: message.model,
+        tokensUsed: message.tokens_used,
+        attachmentIds: message.attachment_ids ? JSON.parse(message.attachment_ids) : [],
+        createdAt: message.created_at
+      }))
+    }
+  });
+}));
+
+// Rename conversation
+router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = renameConversationSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const conversation = await get(
+    'SELECT id FROM conversations WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!conversation) {
+    throw createError('Conversation not found', 404);
+  }
+
+  await run(
+    'UPDATE conversations SET title = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [value.title, req.params.id]
+  );
+
+  res.json({ message: 'Conversation renamed successfully' });
+}));
+
+// Fork conversation, optionally only up to (and including) a given message
+router.post('/:id/fork', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = forkConversationSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const conversation = await get(
+    'SELECT * FROM conversations WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!conversation) {
+    throw createError('Conversation not found', 404);
+  }
+
+  let messages = await all(
+    `SELECT id, role, content, model, tokens_used, attachment_ids, created_at
+     FROM conversation_messages
+     WHERE conversation_id = ?
+     ORDER BY created_at ASC, rowid ASC`,
+    [conversation.id]
+  );
+
+  if (value.messageId) {
+    const index = messages.findIndex((message: any) => message.id === value.messageId);
+    if (index === -1) {
+      throw createError('Message not found in conversation', 404);
+    }
+    messages = messages.slice(0, index + 1);
+  }
+
+  const forkId = uuidv4();
+  const title = value.title || `${conversation.title} (fork)`;
+
+  // The summary only stays valid if the fork keeps every summarized message
+  const keepsSummary = messages.length >= (conversation.summarized_count || 0);
+
+  await run(
+    `INSERT INTO conversations (id, user_id, project_id, title, model, summary, summarized_count, forked_from)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      forkId,
+      req.user!.id,
+      conversation.project_id,
+      title,
+      conversation.model,
+      keepsSummary ? conversation.summary : null,
+      keepsSummary ? conversation.summarized_count : 0,
+      conversation.id
+    ]
+  );
+
+  for (const message of messages) {
+    await run(
+      `INSERT INTO conversation_messages (id, conversation_id, role, content, model, tokens_used, attachment_ids, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), forkId, message.role, message.content, message.model, message.tokens_used, message.attachment_ids, message.created_at]
+    );
+  }
+
+  res.status(201).json({
+    message: 'Conversation forked successfully',
+    conversation: {
+      id: forkId,
+      projectId: conversation.project_id,
+      title,
+      forkedFrom: conversation.id,
+      messageCount: messages.length
+    }
+  });
+}));
+
+// Delete conversation
+router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const conversation = await get(
+    'SELECT id FROM conversations WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!conversation) {
+    throw createError('Conversation not found', 404);
+  }
+
+  await run('DELETE FROM conversation_messages WHERE conversation_id = ?', [req.params.id]);
+  await run('DELETE FROM conversations WHERE id = ?', [req.params.id]);
+
+  res.json({ message: 'Conversation deleted successfully' });
+}));
+
+export default router;
@@ -2,10 +2,11 @@ import express from 'express';
 import Stripe from 'stripe';
 import { v4 as uuidv4 } from 'uuid';
 import Joi from 'joi';
-import { getDatabase } from '../database/init';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
 import { promisify } from 'util';
 import { asyncHandler, createError } from '../middleware/errorHandler';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { getBalance, grantCredits } from '../services/credits';
 
 const router = express.Router();
 
@@ -87,7 +88,7 @@ router.post('/checkout', authenticateToken, asyncHandler(async (req: Authenticat
 
     // Create pending transaction record
     const db = getDatabase();
-    const run = promisify(db.run.bind(db));
+    const run = promisify(db.run.bind(db)) as QueryRun;
 
     const transactionId = uuidv4();
     await run(
@@ -134,8 +135,8 @@ router.post('/webhook', express.raw({ type: 'application/json' }), asyncHandler(
   }
 
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Handle the event
   switch (event.type) {
@@ -157,9 +158,14 @@ router.post('/webhook', express.raw({ type: 'application/json' }), asyncHandler(
 
         // Add credits to user account
         await run(
-          'UPDATE users SET credits = credits + ?, plan = ? WHERE id = ?',
-          [transaction.credits_added, transaction.plan, transaction.user_id]
+          'UPDATE users SET plan = ? WHERE id = ?',
+          [transaction.plan, transaction.user_id]
         );
+        await grantCredits(transaction.user_id, transaction.credits_added, {
+          type: 'purchase',
+          referenceId: transaction.id,
+          description: `${transaction.plan} plan purchase`
+        });
 
         console.log(`✅ Payment completed for user ${transaction.user_id}: +${transaction.credits_added} credits`);
       }
@@ -186,7 +192,7 @@ router.post('/webhook', express.raw({ type: 'application/json' }), asyncHandler(
 // Get payment history
 router.get('/history', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const all = promisify(db.all.bind(db));
+  const all = promisify(db.all.bind(db)) as QueryAll;
 
   const { page = 1, limit = 10 } = req.query;
   const offset = (Number(page) - 1) * Number(limit);
@@ -226,6 +232,49 @@ router.get('/history', authenticateToken, asyncHandler(async (req: Authenticated
   });
 }));
 
+// Get credit ledger history (reservations, charges, refunds and grants)
+router.get('/ledger', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const { page = 1, limit = 20 } = req.query;
+  const offset = (Number(page) - 1) * Number(limit);
+
+  const entries = await all(
+    `SELECT id, entry_type, amount, reference_id, description, created_at
+     FROM credit_ledger
+     WHERE user_id = ?
+     ORDER BY created_at DESC, rowid DESC
+     LIMIT ? OFFSET ?`,
+    [req.user!.id, Number(limit), offset]
+  );
+
+  // Get total count
+  const countResult = await all(
+    'SELECT COUNT(*) as total FROM credit_ledger WHERE user_id = ?',
+    [req.user!.id]
+  );
+  const total = countResult[0]?.total || 0;
+
+  res.json({
+    balance: await getBalance(req.user!.id),
+    entries: entries.map(entry => ({
+      id: entry.id,
+      type: entry.entry_type,
+      amount: entry.amount,
+      referenceId: entry.reference_id,
+      description: entry.description,
+      createdAt: entry.created_at
+    })),
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      totalPages: Math.ceil(total / Number(limit))
+    }
+  });
+}));
+
 // Get available plans
 router.get('/plans', asyncHandler(async (req, res) => {
   const plans = Object.entries(PLANS).map(([key, config]) => ({
@@ -242,7 +291,7 @@ router.get('/plans', asyncHandler(async (req, res) => {
 // Get current subscription status
 router.get('/subscription', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
 
   const user = await get(
     'SELECT plan, credits FROM users WHERE id = ?',
@@ -263,7 +312,7 @@ router.get('/subscription', authenticateToken, asyncHandler(async (req: Authenti
 
   res.json({
     currentPlan: user.plan,
-    credits: user.credits,
+    credits: await getBalance(req.user!.id),
     lastPayment: latestPayment ? {
       date: latestPayment.created_at,
       plan: latestPayment.plan,
@@ -282,13 +331,7 @@ router.post('/credits', authenticateToken, asyncHandler(async (req: Authenticate
 
   // In production, you'd want admin authentication here
   const db = getDatabase();
-  const run = promisify(db.run.bind(db));
-
-  // Add credits to user
-  await run(
-    'UPDATE users SET credits = credits + ? WHERE id = ?',
-    [credits, req.user!.id]
-  );
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Create transaction record
   const transactionId = uuidv4();
@@ -298,6 +341,12 @@ router.post('/credits', authenticateToken, asyncHandler(async (req: Authenticate
     [transactionId, req.user!.id, 0, 'completed', 'manual', credits]
   );
 
+  // Add credits to user
+  await grantCredits(req.user!.id, credits, {
+    referenceId: transactionId,
+    description: reason || 'Manual credit addition'
+  });
+
   res.json({
     message: 'Credits added successfully',
     creditsAdded: credits,
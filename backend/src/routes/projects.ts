@@ -4,10 +4,55 @@ import Joi from 'joi';
 import archiver from 'archiver';
 import fs from 'fs';
 import path from 'path';
-import { getDatabase } from '../database/init';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { withTransaction } from '../database/transaction';
 import { promisify } from 'util';
 import { asyncHandler, createError } from '../middleware/errorHandler';
-import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { authenticateToken, AuthenticatedRequest, requirePlan } from '../middleware/auth';
+import { createMemoryUpload, getUploadedFiles } from '../middleware/upload';
+import { validateFilePaths } from '../services/filePaths';
+import { assertCanCreateProject, assertPrivateProjectAllowed, getEntitlements, getUsage, plansWith } from '../services/entitlements';
+import { computeChangeset, loadProjectFiles, summarizeChangeset, writeChangeset } from '../services/changesets';
+import {
+  createSnapshot,
+  deleteProjectSnapshots,
+  ensureBaselineSnapshot,
+  formatSnapshot,
+  getBranchHead,
+  getSnapshot,
+  loadSnapshotCodeContent,
+  loadSnapshotFiles,
+  loadSnapshotTree
+} from '../services/snapshots';
+import {
+  BRANCH_NAME_PATTERN,
+  createBranch,
+  deleteBranch,
+  formatBranch,
+  getBranch,
+  listBranches,
+  MAIN_BRANCH,
+  recordMerge,
+  resolveBranch
+} from '../services/branches';
+import { mergeTrees } from '../services/merge';
+import { FileOperation, normalizeFilePath, writeFileOperations } from '../services/projectFiles';
+import { getFileType } from '../services/ai/fileProtocol';
+import { createImportedProject, MAX_IMPORT_ARCHIVE_SIZE, readProjectArchive } from '../services/projectImport';
+import { scaffoldProject } from '../services/scaffold';
+import {
+  DEFAULT_ASSET_DIRECTORY,
+  deleteAssets,
+  deleteProjectAssets,
+  formatAsset,
+  getMimeType,
+  getProjectAsset,
+  loadProjectAssets,
+  MAX_ASSETS_PER_UPLOAD,
+  ProjectAsset,
+  readAssetContent,
+  storeAssets
+} from '../services/assets';
 
 const router = express.Router();
 
@@ -16,7 +61,14 @@ const createProjectSchema = Joi.object({
   name: Joi.string().min(1).max(100).required(),
   description: Joi.string().max(500).optional(),
   techStack: Joi.string().valid('react', 'vue', 'angular', 'vanilla', 'next', 'nuxt').default('react'),
-  visibility: Joi.string().valid('private', 'public').default('private')
+  visibility: Joi.string().valid('private', 'public').optional()
+});
+
+const importProjectSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  description: Joi.string().max(500).optional(),
+  techStack: Joi.string().valid('react', 'vue', 'angular', 'vanilla', 'next', 'nuxt').optional(),
+  visibility: Joi.string().valid('private', 'public').optional()
 });
 
 const updateProjectSchema = Joi.object({
@@ -26,10 +78,77 @@ const updateProjectSchema = Joi.object({
   status: Joi.string().valid('draft', 'building', 'completed', 'error').optional()
 });
 
+const createBranchSchema = Joi.object({
+  name: Joi.string().pattern(BRANCH_NAME_PATTERN).required(),
+  from: Joi.string().optional(),
+  fromVersion: Joi.number().integer().min(1).optional()
+}).oxor('from', 'fromVersion');
+
+const putFileSchema = Joi.object({
+  content: Joi.string().allow('').required(),
+  type: Joi.string().max(50).optional(),
+  branch: Joi.string().optional()
+});
+
+const moveFileSchema = Joi.object({
+  from: Joi.string().required(),
+  to: Joi.string().required(),
+  overwrite: Joi.boolean().default(false),
+  branch: Joi.string().optional()
+});
+
+const bulkFilesSchema = Joi.object({
+  operations: Joi.array().items(Joi.alternatives().try(
+    Joi.object({ op: Joi.string().valid('put').required(), path: Joi.string().required(), content: Joi.string().allow('').required(), type: Joi.string().max(50).optional() }),
+    Joi.object({ op: Joi.string().valid('delete').required(), path: Joi.string().required() }),
+    Joi.object({ op: Joi.string().valid('move').required(), from: Joi.string().required(), to: Joi.string().required(), overwrite: Joi.boolean().default(false) })
+  )).min(1).max(200).required(),
+  branch: Joi.string().optional()
+});
+
+const uploadAssetsSchema = Joi.object({
+  directory: Joi.string().max(200).optional(),
+  path: Joi.string().optional()
+}).oxor('directory', 'path');
+
+const mergeBranchSchema = Joi.object({
+  dryRun: Joi.boolean().default(false),
+  resolutions: Joi.object().pattern(Joi.string(), Joi.string().valid('ours', 'theirs')).default({})
+});
+
+// Multipart asset uploads, limited to the plan's asset size
+const uploadAssets: express.RequestHandler = (req, res, next) => {
+  const { plan } = (req as AuthenticatedRequest).user!;
+  const { maxAssetSize } = getEntitlements(plan);
+
+  createMemoryUpload(maxAssetSize).array('files', MAX_ASSETS_PER_UPLOAD)(req, res, (err?: any) => {
+    if (err?.code === 'LIMIT_FILE_SIZE') {
+      next(createError(`Assets are limited to ${maxAssetSize / (1024 * 1024)} MB on the ${plan} plan`, 413));
+      return;
+    }
+    if (err?.code === 'LIMIT_UNEXPECTED_FILE') {
+      next(createError(`Upload up to ${MAX_ASSETS_PER_UPLOAD} files in the "files" field`, 400));
+      return;
+    }
+    next(err);
+  });
+};
+
+// A single ZIP archive in the "archive" field
+const uploadArchive: express.RequestHandler = (req, res, next) => {
+  createMemoryUpload(MAX_IMPORT_ARCHIVE_SIZE).single('archive')(req, res, (err?: any) => {
+    if (err?.code === 'LIMIT_FILE_SIZE') {
+      next(createError(`Archives are limited to ${MAX_IMPORT_ARCHIVE_SIZE / (1024 * 1024)} MB`, 413));
+      return;
+    }
+    next(err);
+  });
+};
+
 // Get all projects for user
 router.get('/', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const all = promisify(db.all.bind(db));
+  const all = promisify(db.all.bind(db)) as QueryAll;
 
   const { page = 1, limit = 10, status, visibility } = req.query;
   const offset = (Number(page) - 1) * Number(limit);
@@ -98,8 +217,8 @@ router.get('/', authenticateToken, asyncHandler(async (req: AuthenticatedRequest
 // Get single project
 router.get('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const all = promisify(db.all.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
 
   const project = await get(
     `SELECT * FROM projects 
@@ -111,11 +230,14 @@ router.get('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
     throw createError('Project not found', 404);
   }
 
+  const branch = await resolveBranch(project, req.query.branch);
+
   // Get project files
   const files = await all(
-    'SELECT id, file_path, file_type, size, updated_at FROM project_files WHERE project_id = ?',
-    [project.id]
+    'SELECT id, file_path, file_type, size, updated_at FROM project_files WHERE project_id = ? AND branch = ?',
+    [project.id, branch]
   );
+  const assets = await loadProjectAssets(project.id);
 
   res.json({
     project: {
@@ -130,13 +252,9 @@ router.get('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
       downloadUrl: project.download_url,
       createdAt: project.created_at,
       updatedAt: project.updated_at,
-      files: files.map(file => ({
-        id: file.id,
-        path: file.file_path,
-        type: file.file_type,
-        size: file.size,
-        updatedAt: file.updated_at
-      }))
+      branch,
+      currentBranch: project.current_branch || MAIN_BRANCH,
+      files: listFiles(files, assets)
     }
   });
 }));
@@ -148,9 +266,13 @@ router.post('/', authenticateToken, asyncHandler(async (req: AuthenticatedReques
     throw createError(error.details[0].message, 400);
   }
 
-  const { name, description, techStack, visibility } = value;
+  const { name, description, techStack } = value;
+  // Default to private unless the plan has no private projects
+  const visibility = value.visibility || (getEntitlements(req.user!.plan).privateProjects === 0 ? 'public' : 'private');
+  await assertCanCreateProject(req.user!.id, req.user!.plan, visibility);
+
   const db = getDatabase();
-  const run = promisify(db.run.bind(db));
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   const projectId = uuidv4();
   await run(
@@ -172,6 +294,52 @@ router.post('/', authenticateToken, asyncHandler(async (req: AuthenticatedReques
   });
 }));
 
+// Create a project from a ZIP archive of an existing one
+router.post('/import', authenticateToken, uploadArchive, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = importProjectSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  if (!req.file) {
+    throw createError('No archive uploaded', 400);
+  }
+
+  const visibility = value.visibility || (getEntitlements(req.user!.plan).privateProjects === 0 ? 'public' : 'private');
+  await assertCanCreateProject(req.user!.id, req.user!.plan, visibility);
+
+  const imported = readProjectArchive(req.file.buffer);
+  if (imported.files.length === 0 && imported.assets.length === 0) {
+    throw createError('Archive has no files to import', 400);
+  }
+
+  // Name from the request, else package.json, else the archive's file name
+  const name = (value.name || imported.packageName || req.file.originalname.replace(/\.zip$/i, '') || 'Imported project').slice(0, 100);
+  const techStack = value.techStack || imported.techStack;
+  const { id, version } = await createImportedProject(
+    { name, description: value.description, techStack, visibility },
+    imported,
+    req.user!
+  );
+
+  res.status(201).json({
+    message: 'Project imported successfully',
+    project: {
+      id,
+      name,
+      description: value.description,
+      techStack,
+      detectedTechStack: imported.techStack,
+      visibility,
+      status: 'draft'
+    },
+    files: imported.files.length,
+    assets: imported.assets.length,
+    skipped: imported.skipped,
+    version
+  });
+}));
+
 // Update project
 router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const { error, value } = updateProjectSchema.validate(req.body);
@@ -180,12 +348,12 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
   }
 
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Check if project exists and user owns it
   const project = await get(
-    'SELECT id FROM projects WHERE id = ? AND user_id = ?',
+    'SELECT id, visibility FROM projects WHERE id = ? AND user_id = ?',
     [req.params.id, req.user!.id]
   );
 
@@ -193,6 +361,11 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
     throw createError('Project not found or access denied', 404);
   }
 
+  if (value.visibility === 'private' && project.visibility !== 'private') {
+    const { privateProjects } = await getUsage(req.user!.id);
+    assertPrivateProjectAllowed(req.user!.plan, privateProjects);
+  }
+
   // Build update query dynamically
   const updates: string[] = [];
   const params: any[] = [];
@@ -222,8 +395,8 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
 // Delete project
 router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Check if project exists and user owns it
   const project = await get(
@@ -235,8 +408,24 @@ router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedR
     throw createError('Project not found or access denied', 404);
   }
 
-  // Delete project (cascade will handle related records)
-  await run('DELETE FROM projects WHERE id = ?', [req.params.id]);
+  // Foreign keys aren't enforced, so the project's rows are deleted here rather than by cascade
+  const projectId = req.params.id;
+  await withTransaction(async () => {
+    await run('UPDATE ai_generations SET project_id = NULL WHERE project_id = ?', [projectId]);
+    await run('UPDATE chat_usage SET project_id = NULL WHERE project_id = ?', [projectId]);
+    await run(
+      'DELETE FROM conversation_messages WHERE conversation_id IN (SELECT id FROM conversations WHERE project_id = ?)',
+      [projectId]
+    );
+    await run('DELETE FROM conversations WHERE project_id = ?', [projectId]);
+    await run('DELETE FROM project_file_revisions WHERE project_id = ?', [projectId]);
+    await run('DELETE FROM project_files WHERE project_id = ?', [projectId]);
+    await run('DELETE FROM project_branches WHERE project_id = ?', [projectId]);
+    await deleteProjectSnapshots(projectId);
+    await run('DELETE FROM projects WHERE id = ?', [projectId]);
+    // Last: blob files removed from disk can't be rolled back
+    await deleteProjectAssets(projectId);
+  });
 
   res.json({ message: 'Project deleted successfully' });
 }));
@@ -249,11 +438,319 @@ router.put('/:id/code', authenticateToken, asyncHandler(async (req: Authenticate
     throw createError('Code content or files required', 400);
   }
 
+  // Reject traversal and duplicate paths before anything is written
+  let validatedFiles: any[] = [];
+  if (files && Array.isArray(files)) {
+    const validation = validateFilePaths(files);
+    if (validation.errors.length > 0) {
+      throw createError(`Invalid files: ${validation.errors.join('; ')}`, 400);
+    }
+    validatedFiles = validation.files;
+  }
+
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Check if project exists and user owns it
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const branch = await resolveBranch(project, req.body.branch);
+
+  const snapshot = await withTransaction(async () => {
+    await ensureBaselineSnapshot(req.params.id, branch, req.user!.id);
+
+    // Update project code content
+    if (codeContent) {
+      await run(
+        'UPDATE projects SET code_content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [codeContent, req.params.id]
+      );
+    }
+
+    // Update individual files, keeping the row (and its id) of paths that already exist
+    if (validatedFiles.length > 0) {
+      for (const file of validatedFiles) {
+        const fileId = uuidv4();
+        await run(
+          `INSERT INTO project_files 
+           (id, project_id, branch, file_path, file_content, file_type, size)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (project_id, branch, file_path) DO UPDATE SET
+             file_content = excluded.file_content,
+             file_type = excluded.file_type,
+             size = excluded.size,
+             generation_id = NULL,
+             updated_at = CURRENT_TIMESTAMP`,
+          [
+            fileId,
+            req.params.id,
+            branch,
+            file.path,
+            file.content,
+            file.type || 'text',
+            file.content?.length || 0
+          ]
+        );
+      }
+    }
+
+    return createSnapshot(req.params.id, { source: 'code_update', branch, createdBy: req.user!.id });
+  });
+
+  res.json({ message: 'Project code updated successfully', branch, version: snapshot.version });
+}));
+
+// List a branch's files (the current branch unless ?branch= is given)
+router.get('/:id/files', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const project = await get(
+    `SELECT id, current_branch FROM projects 
+     WHERE id = ? AND (user_id = ? OR visibility = 'public')`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found', 404);
+  }
+
+  const branch = await resolveBranch(project, req.query.branch);
+  const files = await all(
+    'SELECT id, file_path, file_type, size, updated_at FROM project_files WHERE project_id = ? AND branch = ? ORDER BY file_path',
+    [project.id, branch]
+  );
+  const assets = await loadProjectAssets(project.id);
+
+  res.json({
+    branch,
+    files: listFiles(files, assets)
+  });
+}));
+
+// Get one file with its content
+router.get('/:id/files/*', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    `SELECT id, current_branch FROM projects 
+     WHERE id = ? AND (user_id = ? OR visibility = 'public')`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found', 404);
+  }
+
+  const branch = await resolveBranch(project, req.query.branch);
+  const filePath = normalizeFilePath(req.params[0]);
+  const file = await get(
+    'SELECT * FROM project_files WHERE project_id = ? AND branch = ? AND file_path = ?',
+    [project.id, branch, filePath]
+  );
+
+  if (!file) {
+    throw createError(`File not found: ${filePath}`, 404);
+  }
+
+  res.json({
+    file: {
+      id: file.id,
+      path: file.file_path,
+      type: file.file_type,
+      mimeType: getMimeType(file.file_path),
+      size: file.size,
+      content: file.file_content ?? '',
+      generationId: file.generation_id,
+      createdAt: file.created_at,
+      updatedAt: file.updated_at
+    },
+    branch
+  });
+}));
+
+// Create or replace one file
+router.put('/:id/files/*', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = putFileSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const branch = await resolveBranch(project, value.branch);
+  const { changeset, snapshot } = await writeFileOperations(
+    project.id,
+    branch,
+    [{ op: 'put', path: req.params[0], content: value.content, type: value.type }],
+    req.user!.id
+  );
+  const created = changeset.added.length > 0;
+
+  res.status(created ? 201 : 200).json({
+    message: created ? 'File created' : 'File saved',
+    path: normalizeFilePath(req.params[0]),
+    branch,
+    version: snapshot.version
+  });
+}));
+
+// Delete a file, or a folder with everything under it
+router.delete('/:id/files/*', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const branch = await resolveBranch(project, req.query.branch);
+  const { changeset, snapshot } = await writeFileOperations(
+    project.id,
+    branch,
+    [{ op: 'delete', path: req.params[0] }],
+    req.user!.id
+  );
+
+  res.json({ message: 'File deleted', deleted: changeset.deleted, branch, version: snapshot.version });
+}));
+
+// Rename or move a file or folder
+router.post('/:id/files/move', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = moveFileSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const branch = await resolveBranch(project, value.branch);
+  const { results, snapshot } = await writeFileOperations(
+    project.id,
+    branch,
+    [{ op: 'move', from: value.from, to: value.to, overwrite: value.overwrite }],
+    req.user!.id
+  );
+
+  res.json({ message: 'File moved', paths: results[0].paths, branch, version: snapshot.version });
+}));
+
+// Apply several put/delete/move operations in order, all or nothing
+router.post('/:id/files/bulk', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = bulkFilesSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const branch = await resolveBranch(project, value.branch);
+  const { changeset, results, snapshot } = await writeFileOperations(
+    project.id,
+    branch,
+    value.operations as FileOperation[],
+    req.user!.id
+  );
+
+  res.json({
+    message: 'Files updated',
+    results,
+    changes: {
+      added: changeset.added.map(file => file.path),
+      modified: changeset.modified.map(file => file.path),
+      deleted: changeset.deleted
+    },
+    branch,
+    version: snapshot.version
+  });
+}));
+
+// List a project's uploaded assets
+router.get('/:id/assets', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    `SELECT id FROM projects 
+     WHERE id = ? AND (user_id = ? OR visibility = 'public')`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found', 404);
+  }
+
+  const assets = await loadProjectAssets(project.id);
+
+  res.json({
+    assets: assets.map(formatAsset),
+    totalSize: assets.reduce((total, asset) => total + asset.size, 0)
+  });
+}));
+
+// Upload binary assets (multipart field "files") into a directory, or one file at a path
+router.post('/:id/assets', authenticateToken, uploadAssets, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = uploadAssetsSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const files = getUploadedFiles(req);
+  if (files.length === 0) {
+    throw createError('No files uploaded', 400);
+  }
+  if (value.path && files.length > 1) {
+    throw createError('path can only be given for a single file', 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
   const project = await get(
     'SELECT id FROM projects WHERE id = ? AND user_id = ?',
     [req.params.id, req.user!.id]
@@ -263,42 +760,399 @@ router.put('/:id/code', authenticateToken, asyncHandler(async (req: Authenticate
     throw createError('Project not found or access denied', 404);
   }
 
-  // Update project code content
-  if (codeContent) {
-    await run(
-      'UPDATE projects SET code_content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      [codeContent, req.params.id]
+  const stored = await storeAssets(
+    project.id,
+    files.map(file => ({
+      path: value.path || `${value.directory || DEFAULT_ASSET_DIRECTORY}/${file.originalname}`,
+      data: file.buffer,
+      originalName: file.originalname
+    })),
+    req.user!.id,
+    req.user!.plan
+  );
+
+  res.status(stored.some(result => result.created) ? 201 : 200).json({
+    message: 'Assets uploaded',
+    assets: stored.map(result => ({ ...formatAsset(result.asset), created: result.created }))
+  });
+}));
+
+// Get an asset's content with its MIME type
+router.get('/:id/assets/*', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    `SELECT id FROM projects 
+     WHERE id = ? AND (user_id = ? OR visibility = 'public')`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found', 404);
+  }
+
+  const filePath = normalizeFilePath(req.params[0]);
+  const asset = await getProjectAsset(project.id, filePath);
+  if (!asset) {
+    throw createError(`Asset not found: ${filePath}`, 404);
+  }
+
+  res.setHeader('Content-Type', asset.mime_type);
+  res.setHeader('ETag', `"${asset.blob_hash}"`);
+  res.send(await readAssetContent(asset));
+}));
+
+// Delete an asset, or a folder of assets
+router.delete('/:id/assets/*', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const deleted = await deleteAssets(project.id, req.params[0]);
+
+  res.json({ message: 'Asset deleted', deleted });
+}));
+
+// List project versions, newest first; ?branch= limits them to one branch
+router.get('/:id/versions', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const project = await get(
+    `SELECT id FROM projects 
+     WHERE id = ? AND (user_id = ? OR visibility = 'public')`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found', 404);
+  }
+
+  const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+  let where = 'WHERE s.project_id = ?';
+  const params: any[] = [project.id];
+
+  if (req.query.branch) {
+    where += ' AND s.branch = ?';
+    params.push(req.query.branch);
+  }
+
+  const versions = await all(
+    `SELECT s.*, r.version as restored_from_version
+     FROM project_snapshots s
+     LEFT JOIN project_snapshots r ON r.id = s.restored_from
+     ${where}
+     ORDER BY s.version DESC
+     LIMIT ? OFFSET ?`,
+    [...params, limit, (page - 1) * limit]
+  );
+  const countResult = await get(`SELECT COUNT(*) as total FROM project_snapshots s ${where}`, params);
+  const total = countResult?.total || 0;
+
+  res.json({
+    versions: versions.map(formatSnapshot),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+// Get a version's file tree; ?includeContent=true adds file contents
+router.get('/:id/versions/:version', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    `SELECT id FROM projects 
+     WHERE id = ? AND (user_id = ? OR visibility = 'public')`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found', 404);
+  }
+
+  const snapshot = await getSnapshot(project.id, Number(req.params.version));
+  if (!snapshot) {
+    throw createError('Version not found', 404);
+  }
+
+  const includeContent = req.query.includeContent === 'true';
+
+  res.json({
+    version: {
+      ...formatSnapshot(snapshot),
+      codeContent: includeContent ? await loadSnapshotCodeContent(snapshot) : undefined,
+      files: await loadSnapshotFiles(snapshot.id, includeContent)
+    }
+  });
+}));
+
+// Restore a version into a branch (the current one by default); the restored tree is recorded as a new version
+router.post('/:id/versions/:version/restore', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const target = await getSnapshot(project.id, Number(req.params.version));
+  if (!target) {
+    throw createError('Version not found', 404);
+  }
+
+  const branch = await resolveBranch(project, req.body?.branch);
+  const files = await loadSnapshotFiles(target.id, true);
+  const codeContent = await loadSnapshotCodeContent(target);
+
+  // Diffed against the branch's files as they are when the restore is written
+  const { changeset, snapshot } = await withTransaction(async () => {
+    const changeset = computeChangeset(
+      await loadProjectFiles(project.id, branch),
+      files.map(file => ({ path: file.path, content: file.content ?? '', type: file.type })),
+      'replace'
     );
+
+    const snapshot = await writeChangeset(project.id, changeset, {
+      source: 'restore',
+      branch,
+      createdBy: req.user!.id,
+      restoredFrom: target.id,
+      codeContent
+    });
+
+    return { changeset, snapshot };
+  });
+
+  res.json({
+    message: `Version ${target.version} restored`,
+    version: formatSnapshot(snapshot),
+    changes: summarizeChangeset(changeset)
+  });
+}));
+
+// List branches; main always exists
+router.get('/:id/branches', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    `SELECT id, current_branch FROM projects 
+     WHERE id = ? AND (user_id = ? OR visibility = 'public')`,
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found', 404);
   }
 
-  // Update individual files
-  if (files && Array.isArray(files)) {
-    for (const file of files) {
-      const fileId = uuidv4();
-      await run(
-        `INSERT OR REPLACE INTO project_files 
-         (id, project_id, file_path, file_content, file_type, size)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [
-          fileId,
-          req.params.id,
-          file.path,
-          file.content,
-          file.type || 'text',
-          file.content?.length || 0
-        ]
-      );
+  const currentBranch = project.current_branch || MAIN_BRANCH;
+  const branches = await listBranches(project.id);
+
+  res.json({
+    currentBranch,
+    branches: branches.map(branch => formatBranch(branch, currentBranch))
+  });
+}));
+
+// Create a branch from another branch (the current one by default) or from a version
+router.post('/:id/branches', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = createBranchSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  let files: { path: string; content: string; type?: string }[];
+  let source: string;
+
+  if (value.fromVersion) {
+    const snapshot = await getSnapshot(project.id, value.fromVersion);
+    if (!snapshot) {
+      throw createError('Version not found', 404);
+    }
+    files = (await loadSnapshotFiles(snapshot.id, true)).map(file => ({ path: file.path, content: file.content ?? '', type: file.type }));
+    source = `version ${snapshot.version}`;
+  } else {
+    const from = await resolveBranch(project, value.from);
+    files = [...(await loadProjectFiles(project.id, from))].map(([path, content]) => ({ path, content, type: getFileType(path) }));
+    source = from;
+  }
+
+  const branch = await createBranch(project.id, value.name, files, req.user!.id);
+
+  res.status(201).json({
+    message: `Branch ${value.name} created from ${source}`,
+    branch: formatBranch(branch, project.current_branch || MAIN_BRANCH)
+  });
+}));
+
+// Switch the branch that reads and writes use by default
+router.post('/:id/branches/:name/checkout', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  const branch = await resolveBranch(project, req.params.name);
+  await run(
+    'UPDATE projects SET current_branch = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [branch, project.id]
+  );
+
+  res.json({ message: `Switched to branch ${branch}`, currentBranch: branch });
+}));
+
+// Three-way merge of a branch into main. Conflicting files need a resolution
+// ('ours' keeps main's version, 'theirs' takes the branch's); until every conflict
+// has one, nothing is written and the conflicts are returned with a 409.
+router.post('/:id/branches/:name/merge', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = mergeBranchSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  // The branch and main's files are read, merged and written in one transaction, so
+  // nothing saved to main or merged from the branch meanwhile is overwritten
+  const { branch, merge, changeset, upToDate, snapshot } = await withTransaction(async () => {
+    const branch = await getBranch(project.id, req.params.name);
+    if (!branch) {
+      throw createError(`Branch ${req.params.name} not found`, 404);
+    }
+
+    const head = await getBranchHead(project.id, branch.name);
+    const base = branch.merge_base_snapshot_id ? await loadSnapshotTree(branch.merge_base_snapshot_id) : new Map<string, string>();
+    const ours = await loadProjectFiles(project.id, MAIN_BRANCH);
+    const merge = mergeTrees(base, ours, await loadSnapshotTree(head.id), value.resolutions);
+
+    if (merge.conflicts.length > 0) {
+      return { branch, merge, changeset: null, upToDate: false, snapshot: null };
+    }
+
+    const changeset = computeChangeset(
+      ours,
+      [...merge.files].map(([path, content]) => ({ path, content, type: getFileType(path) })),
+      'replace'
+    );
+
+    const upToDate = changeset.added.length + changeset.modified.length + changeset.deleted.length === 0;
+
+    let snapshot = null;
+    if (!value.dryRun && !upToDate) {
+      snapshot = await writeChangeset(project.id, changeset, { source: 'merge', branch: MAIN_BRANCH, createdBy: req.user!.id });
+      await recordMerge(project.id, branch.name, head.id);
     }
+
+    return { branch, merge, changeset, upToDate, snapshot };
+  });
+
+  if (!changeset) {
+    res.status(409).json({
+      error: `Merging ${branch.name} into ${MAIN_BRANCH} has conflicts in ${merge.conflicts.length} file(s)`,
+      conflicts: merge.conflicts
+    });
+    return;
   }
 
-  res.json({ message: 'Project code updated successfully' });
+  res.json({
+    message: upToDate
+      ? `${MAIN_BRANCH} is already up to date with ${branch.name}`
+      : value.dryRun ? 'Dry run completed' : `Branch ${branch.name} merged into ${MAIN_BRANCH}`,
+    dryRun: value.dryRun,
+    version: snapshot?.version ?? null,
+    changes: summarizeChangeset(changeset),
+    autoMerged: merge.merged
+  });
+}));
+
+// Delete a branch and its files; its versions stay in the history
+router.delete('/:id/branches/:name', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get(
+    'SELECT id, current_branch FROM projects WHERE id = ? AND user_id = ?',
+    [req.params.id, req.user!.id]
+  );
+
+  if (!project) {
+    throw createError('Project not found or access denied', 404);
+  }
+
+  if (req.params.name === MAIN_BRANCH) {
+    throw createError('The main branch cannot be deleted', 400);
+  }
+
+  if (!(await getBranch(project.id, req.params.name))) {
+    throw createError(`Branch ${req.params.name} not found`, 404);
+  }
+
+  if (req.params.name === project.current_branch) {
+    throw createError('Switch to another branch before deleting the current one', 409);
+  }
+
+  await deleteBranch(project.id, req.params.name);
+
+  res.json({ message: `Branch ${req.params.name} deleted` });
 }));
 
 // Download project as ZIP
-router.get('/:id/download', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+router.get('/:id/download', authenticateToken, requirePlan(plansWith('downloadCode')), asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const all = promisify(db.all.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
 
   // Check if project exists and user has access
   const project = await get(
@@ -311,76 +1165,74 @@ router.get('/:id/download', authenticateToken, asyncHandler(async (req: Authenti
     throw createError('Project not found or access denied', 404);
   }
 
+  const branch = await resolveBranch(project, req.query.branch);
+
   // Get project files
   const files = await all(
-    'SELECT file_path, file_content FROM project_files WHERE project_id = ?',
-    [project.id]
+    'SELECT file_path, file_content FROM project_files WHERE project_id = ? AND branch = ?',
+    [project.id, branch]
+  );
+
+  // Project files completed into a runnable project for its stack
+  const assets = await loadProjectAssets(project.id);
+  const tree = scaffoldProject(
+    { name: project.name, description: project.description, techStack: project.tech_stack },
+    new Map(files.map((file: any) => [file.file_path, file.file_content ?? ''])),
+    assets.map(asset => asset.file_path)
   );
 
   // Create ZIP archive
   const archive = archiver('zip', { zlib: { level: 9 } });
   
   res.setHeader('Content-Type', 'application/zip');
-  res.setHeader('Content-Disposition', `attachment; filename="${project.name}.zip"`);
+  const archiveName = branch === MAIN_BRANCH ? project.name : `${project.name}-${branch}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${archiveName}.zip"`);
 
   archive.pipe(res);
 
-  // Add main code content if available
-  if (project.code_content) {
-    archive.append(project.code_content, { name: 'README.md' });
-  }
-
-  // Add individual files
-  files.forEach(file => {
-    if (file.file_content) {
-      archive.append(file.file_content, { name: file.file_path });
+  try {
+    for (const [filePath, content] of tree) {
+      archive.append(content, { name: filePath });
     }
-  });
 
-  // Add package.json for the project
-  const packageJson = {
-    name: project.name.toLowerCase().replace(/\s+/g, '-'),
-    version: '1.0.0',
-    description: project.description || '',
-    main: 'index.js',
-    scripts: {
-      dev: 'vite',
-      build: 'vite build',
-      preview: 'vite preview'
-    },
-    dependencies: getDefaultDependencies(project.tech_stack)
-  };
-
-  archive.append(JSON.stringify(packageJson, null, 2), { name: 'package.json' });
+    // Add uploaded assets; a text file at the same path wins. Each is read as the
+    // archive gets to it, so a large project isn't held in memory.
+    for (const asset of assets) {
+      if (!tree.has(asset.file_path)) {
+        archive.append(await readAssetContent(asset), { name: asset.file_path });
+      }
+    }
 
-  await archive.finalize();
+    await archive.finalize();
+  } catch (error: any) {
+    // The headers are sent, so the error handler can't answer. Break the connection
+    // to fail the download instead of ending it as a truncated ZIP.
+    console.error('Project download failed:', error);
+    archive.abort();
+    res.destroy(error);
+  }
 }));
 
-// Helper function to get default dependencies based on tech stack
-function getDefaultDependencies(techStack: string) {
-  const baseDependencies = {
-    react: {
-      'react': '^18.2.0',
-      'react-dom': '^18.2.0',
-      'vite': '^5.0.0',
-      '@vitejs/plugin-react': '^4.2.0',
-      'typescript': '^5.0.0',
-      '@types/react': '^18.2.0',
-      '@types/react-dom': '^18.2.0'
-    },
-    vue: {
-      'vue': '^3.3.0',
-      'vite': '^5.0.0',
-      '@vitejs/plugin-vue': '^4.5.0',
-      'typescript': '^5.0.0'
-    },
-    vanilla: {
-      'vite': '^5.0.0',
-      'typescript': '^5.0.0'
-    }
-  };
-
-  return baseDependencies[techStack as keyof typeof baseDependencies] || baseDependencies.react;
+// Text files of a branch and the project's assets, in path order, for file listings
+function listFiles(files: any[], assets: ProjectAsset[]) {
+  return [
+    ...files.map(file => ({
+      id: file.id,
+      path: file.file_path,
+      type: file.file_type,
+      mimeType: getMimeType(file.file_path),
+      size: file.size,
+      updatedAt: file.updated_at
+    })),
+    ...assets.map(asset => ({
+      id: asset.id,
+      path: asset.file_path,
+      type: 'asset',
+      mimeType: asset.mime_type,
+      size: asset.size,
+      updatedAt: asset.updated_at
+    }))
+  ].sort((a, b) => a.path.localeCompare(b.path));
 }
 
 export default router;
\ No newline at end of file
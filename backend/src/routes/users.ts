@@ -1,54 +1,34 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
 import Joi from 'joi';
-import multer from 'multer';
 import path from 'path';
-import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { getDatabase } from '../database/init';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
 import { promisify } from 'util';
 import { asyncHandler, createError } from '../middleware/errorHandler';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { createImageUpload } from '../middleware/upload';
+import { getEntitlements, getUsage } from '../services/entitlements';
+import { getModelIds } from '../services/ai/registry';
+import { getUserApiKey, listKeyProviders, validateApiKey } from '../services/ai/userKeys';
+import { deleteUserAttachments } from '../services/ai/attachments';
+import { clearUserCache } from '../services/ai/generationCache';
+import { encryptSecret, maskSecret } from '../services/secrets';
 
 const router = express.Router();
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    const uploadDir = path.join(process.cwd(), 'uploads', 'avatars');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: (req, file, cb) => {
-    const uniqueName = `${uuidv4()}${path.extname(file.originalname)}`;
-    cb(null, uniqueName);
-  }
-});
-
-const upload = multer({
-  storage,
-  limits: {
-    fileSize: 5 * 1024 * 1024 // 5MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = /jpeg|jpg|png|gif|webp/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-
-    if (mimetype && extname) {
-      return cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed'));
-    }
-  }
-});
+// Avatars are served publicly from /uploads
+const upload = createImageUpload(path.join(process.cwd(), 'uploads', 'avatars'));
 
 // Validation schemas
 const updateProfileSchema = Joi.object({
   displayName: Joi.string().min(2).max(50).optional(),
-  email: Joi.string().email().optional()
+  email: Joi.string().email().optional(),
+  generationCache: Joi.boolean().optional()
+});
+
+const apiKeySchema = Joi.object({
+  apiKey: Joi.string().trim().min(10).max(500).required()
 });
 
 const changePasswordSchema = Joi.object({
@@ -59,10 +39,10 @@ const changePasswordSchema = Joi.object({
 // Get user profile
 router.get('/profile', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
 
   const user = await get(
-    `SELECT id, email, display_name, avatar_url, plan, credits, created_at, last_login,
+    `SELECT id, email, display_name, avatar_url, plan, credits, generation_cache_enabled, created_at, last_login,
             (SELECT COUNT(*) FROM projects WHERE user_id = users.id) as project_count,
             (SELECT COUNT(*) FROM ai_generations WHERE user_id = users.id) as generation_count
      FROM users WHERE id = ?`,
@@ -81,6 +61,7 @@ router.get('/profile', authenticateToken, asyncHandler(async (req: Authenticated
       avatarUrl: user.avatar_url,
       plan: user.plan,
       credits: user.credits,
+      generationCache: Boolean(user.generation_cache_enabled ?? 1),
       createdAt: user.created_at,
       lastLogin: user.last_login,
       stats: {
@@ -99,8 +80,8 @@ router.put('/profile', authenticateToken, asyncHandler(async (req: Authenticated
   }
 
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Check if email is already taken (if updating email)
   if (value.email) {
@@ -120,9 +101,9 @@ router.put('/profile', authenticateToken, asyncHandler(async (req: Authenticated
 
   Object.entries(value).forEach(([key, val]) => {
     if (val !== undefined) {
-      const dbKey = key === 'displayName' ? 'display_name' : key;
+      const dbKey = key === 'displayName' ? 'display_name' : key === 'generationCache' ? 'generation_cache_enabled' : key;
       updates.push(`${dbKey} = ?`);
-      params.push(val);
+      params.push(typeof val === 'boolean' ? Number(val) : val);
     }
   });
 
@@ -138,6 +119,11 @@ router.put('/profile', authenticateToken, asyncHandler(async (req: Authenticated
     params
   );
 
+  // Opting out also forgets what was cached so far
+  if (value.generationCache === false) {
+    await clearUserCache(req.user!.id);
+  }
+
   res.json({ message: 'Profile updated successfully' });
 }));
 
@@ -148,7 +134,7 @@ router.post('/avatar', authenticateToken, upload.single('avatar'), asyncHandler(
   }
 
   const db = getDatabase();
-  const run = promisify(db.run.bind(db));
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   const avatarUrl = `/uploads/avatars/${req.file.filename}`;
 
@@ -172,8 +158,8 @@ router.put('/password', authenticateToken, asyncHandler(async (req: Authenticate
 
   const { currentPassword, newPassword } = value;
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Get current password hash
   const user = await get(
@@ -207,16 +193,38 @@ router.put('/password', authenticateToken, asyncHandler(async (req: Authenticate
 // Get user usage statistics
 router.get('/usage', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const all = promisify(db.all.bind(db));
+  const all = promisify(db.all.bind(db)) as QueryAll;
 
   // Get usage stats for the last 30 days
   const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
 
+  // Token usage of generations, edits and chat replies
+  const tokenUsage = `
+    SELECT model, project_id, tokens_used, input_tokens, output_tokens, cached_tokens, cost
+    FROM ai_generations
+    WHERE user_id = ? AND created_at >= ?
+    UNION ALL
+    SELECT model, project_id, tokens_used, input_tokens, output_tokens, cached_tokens, cost
+    FROM chat_usage
+    WHERE user_id = ? AND created_at >= ?
+  `;
+  const tokenTotals = `
+    COUNT(*) as requests,
+    SUM(u.tokens_used) as tokens,
+    SUM(u.input_tokens) as input_tokens,
+    SUM(u.output_tokens) as output_tokens,
+    SUM(u.cached_tokens) as cached_tokens,
+    SUM(u.cost) as cost
+  `;
+  const tokenUsageParams = [req.user!.id, thirtyDaysAgo, req.user!.id, thirtyDaysAgo];
+
   const [
     generationStats,
     projectStats,
     creditUsage,
-    apiUsage
+    apiUsage,
+    modelUsage,
+    projectUsage
   ] = await Promise.all([
     // AI generation stats
     all(`
@@ -263,15 +271,43 @@ router.get('/usage', authenticateToken, asyncHandler(async (req: AuthenticatedRe
       WHERE user_id = ? AND created_at >= ?
       GROUP BY endpoint
       ORDER BY count DESC
-    `, [req.user!.id, thirtyDaysAgo])
+    `, [req.user!.id, thirtyDaysAgo]),
+
+    // Token usage and cost per model
+    all(`
+      SELECT u.model, ${tokenTotals}
+      FROM (${tokenUsage}) u
+      GROUP BY u.model
+      ORDER BY cost DESC
+    `, tokenUsageParams),
+
+    // Token usage and cost per project (null for requests outside a project)
+    all(`
+      SELECT u.project_id, p.name as project_name, ${tokenTotals}
+      FROM (${tokenUsage}) u
+      LEFT JOIN projects p ON p.id = u.project_id
+      GROUP BY u.project_id
+      ORDER BY cost DESC
+    `, tokenUsageParams)
   ]);
 
+  const formatTokenTotals = (row: any) => ({
+    requests: row.requests,
+    tokens: row.tokens || 0,
+    inputTokens: row.input_tokens || 0,
+    outputTokens: row.output_tokens || 0,
+    cachedTokens: row.cached_tokens || 0,
+    cost: row.cost || 0
+  });
+
   res.json({
     usage: {
       generations: generationStats,
       projects: projectStats,
       credits: creditUsage,
-      api: apiUsage
+      api: apiUsage,
+      byModel: modelUsage.map((row: any) => ({ model: row.model, ...formatTokenTotals(row) })),
+      byProject: projectUsage.map((row: any) => ({ projectId: row.project_id, projectName: row.project_name, ...formatTokenTotals(row) }))
     },
     period: {
       start: thirtyDaysAgo,
@@ -280,6 +316,124 @@ router.get('/usage', authenticateToken, asyncHandler(async (req: AuthenticatedRe
   });
 }));
 
+// Get plan entitlements and current usage against them
+router.get('/entitlements', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const plan = req.user!.plan;
+  const entitlements = getEntitlements(plan);
+  const usage = await getUsage(req.user!.id);
+
+  res.json({
+    plan,
+    entitlements: {
+      ...entitlements,
+      models: entitlements.models === 'all' ? getModelIds() : entitlements.models.filter(id => getModelIds().includes(id))
+    },
+    usage,
+    remaining: {
+      generationsThisMonth: entitlements.monthlyGenerations === null ? null : Math.max(entitlements.monthlyGenerations - usage.generationsThisMonth, 0),
+      projects: entitlements.maxProjects === null ? null : Math.max(entitlements.maxProjects - usage.projects, 0),
+      privateProjects: entitlements.privateProjects === null ? null : Math.max(entitlements.privateProjects - usage.privateProjects, 0)
+    }
+  });
+}));
+
+// List the user's own provider API keys (never returns the keys themselves)
+router.get('/api-keys', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const keys = await all(
+    'SELECT provider, key_hint, validated_at, created_at, updated_at FROM user_api_keys WHERE user_id = ?',
+    [req.user!.id]
+  );
+
+  res.json({
+    providers: listKeyProviders().map(provider => {
+      const key = keys.find(candidate => candidate.provider === provider.id);
+      return {
+        provider: provider.id,
+        name: provider.name,
+        configured: Boolean(key),
+        keyHint: key?.key_hint || null,
+        validatedAt: key?.validated_at || null,
+        updatedAt: key?.updated_at || null
+      };
+    })
+  });
+}));
+
+// Save (or replace) a provider API key after checking it with the provider
+router.put('/api-keys/:provider', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = apiKeySchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  // Encrypt first so a missing master key fails before calling the provider
+  const provider = req.params.provider;
+  const encryptedKey = encryptSecret(value.apiKey);
+  await validateApiKey(provider, value.apiKey);
+
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    `INSERT INTO user_api_keys (id, user_id, provider, encrypted_key, key_hint, validated_at)
+     VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT (user_id, provider) DO UPDATE SET
+       encrypted_key = excluded.encrypted_key,
+       key_hint = excluded.key_hint,
+       validated_at = CURRENT_TIMESTAMP,
+       updated_at = CURRENT_TIMESTAMP`,
+    [uuidv4(), req.user!.id, provider, encryptedKey, maskSecret(value.apiKey)]
+  );
+
+  res.json({
+    message: 'API key saved successfully',
+    provider,
+    keyHint: maskSecret(value.apiKey)
+  });
+}));
+
+// Re-check a saved API key
+router.post('/api-keys/:provider/test', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const apiKey = await getUserApiKey(req.user!.id, req.params.provider);
+  if (!apiKey) {
+    throw createError('API key not found', 404);
+  }
+
+  await validateApiKey(req.params.provider, apiKey);
+
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+  await run(
+    'UPDATE user_api_keys SET validated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND provider = ?',
+    [req.user!.id, req.params.provider]
+  );
+
+  res.json({ message: 'API key is valid', provider: req.params.provider });
+}));
+
+// Remove a provider API key
+router.delete('/api-keys/:provider', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const key = await get(
+    'SELECT id FROM user_api_keys WHERE user_id = ? AND provider = ?',
+    [req.user!.id, req.params.provider]
+  );
+
+  if (!key) {
+    throw createError('API key not found', 404);
+  }
+
+  await run('DELETE FROM user_api_keys WHERE id = ?', [key.id]);
+
+  res.json({ message: 'API key removed successfully' });
+}));
+
 // Delete user account
 router.delete('/account', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const { password } = req.body;
@@ -289,8 +443,8 @@ router.delete('/account', authenticateToken, asyncHandler(async (req: Authentica
   }
 
   const db = getDatabase();
-  const get = promisify(db.get.bind(db));
-  const run = promisify(db.run.bind(db));
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   // Verify password
   const user = await get(
@@ -307,6 +461,11 @@ router.delete('/account', authenticateToken, asyncHandler(async (req: Authentica
     throw createError('Invalid password', 400);
   }
 
+  // Stored provider keys, attachment files and cache entries are removed explicitly rather than left to the cascade
+  await run('DELETE FROM user_api_keys WHERE user_id = ?', [req.user!.id]);
+  await deleteUserAttachments(req.user!.id);
+  await clearUserCache(req.user!.id);
+
   // Delete user account (cascade will handle related records)
   await run('DELETE FROM users WHERE id = ?', [req.user!.id]);
 
@@ -316,7 +475,7 @@ router.delete('/account', authenticateToken, asyncHandler(async (req: Authentica
 // Get user sessions
 router.get('/sessions', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const all = promisify(db.all.bind(db));
+  const all = promisify(db.all.bind(db)) as QueryAll;
 
   const sessions = await all(
     `SELECT id, created_at, last_used, ip_address, user_agent, expires_at
@@ -341,7 +500,7 @@ router.get('/sessions', authenticateToken, asyncHandler(async (req: Authenticate
 // Revoke session
 router.delete('/sessions/:sessionId', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const db = getDatabase();
-  const run = promisify(db.run.bind(db));
+  const run = promisify(db.run.bind(db)) as QueryRun;
 
   await run(
     'DELETE FROM user_sessions WHERE id = ? AND user_id = ?',
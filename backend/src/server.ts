@@ -9,13 +9,18 @@ import { WebSocketServer } from 'ws';
 import authRoutes from './routes/auth';
 import projectRoutes from './routes/projects';
 import aiRoutes from './routes/ai';
+import conversationRoutes from './routes/conversations';
 import userRoutes from './routes/users';
 import paymentRoutes from './routes/payments';
+import adminRoutes from './routes/admin';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
 import { setupWebSocket } from './services/websocket';
+import { startGenerationQueue } from './services/ai/generationJobs';
+import { loadModelPricing } from './services/ai/pricing';
+import { stopJobWorkers } from './services/jobQueue';
 
 // Import database
 import { initializeDatabase } from './database/init';
@@ -65,9 +70,11 @@ app.get('/health', (req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/projects', projectRoutes);
+app.use('/api/ai/conversations', conversationRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Serve static files (uploaded files)
 app.use('/uploads', express.static('uploads'));
@@ -89,6 +96,11 @@ async function startServer() {
     await initializeDatabase();
     console.log('✅ Database initialized successfully');
 
+    await loadModelPricing();
+
+    await startGenerationQueue();
+    console.log('✅ Generation queue started');
+
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📡 WebSocket server ready`);
@@ -104,6 +116,7 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('🛑 SIGTERM received, shutting down gracefully');
+  stopJobWorkers();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -112,6 +125,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('🛑 SIGINT received, shutting down gracefully');
+  stopJobWorkers();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
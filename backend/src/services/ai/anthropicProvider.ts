@@ -0,0 +1,123 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AIProvider, CompletionRequest, StreamChunk, TokenUsage } from './types';
+import { totalTokens } from './tokens';
+
+// Images go in as base64 content blocks ahead of the text
+function toMessages(request: CompletionRequest): Anthropic.MessageParam[] {
+  return request.messages.map(message => {
+    if (!message.images?.length) {
+      return { role: message.role, content: message.content };
+    }
+    return {
+      role: message.role,
+      content: [
+        ...message.images.map(image => ({
+          type: 'image' as const,
+          source: { type: 'base64' as const, media_type: image.mediaType, data: image.data }
+        })),
+        { type: 'text' as const, text: message.content }
+      ]
+    };
+  });
+}
+
+// The SDK's types predate prompt caching. Anthropic reports cache reads and writes
+// apart from `input_tokens`, so they are added back in.
+type CachingUsage = Anthropic.Usage & { cache_read_input_tokens?: number | null; cache_creation_input_tokens?: number | null };
+
+function toUsage(usage: CachingUsage, outputTokens: number = usage.output_tokens): TokenUsage {
+  const cachedTokens = usage.cache_read_input_tokens || 0;
+  return {
+    inputTokens: usage.input_tokens + cachedTokens + (usage.cache_creation_input_tokens || 0),
+    outputTokens,
+    cachedTokens
+  };
+}
+
+// Without an explicit key the provider uses the platform key from the environment
+function createAnthropicProvider(apiKey?: string): AIProvider {
+  let client: Anthropic | null = null;
+
+  const getClient = (): Anthropic => {
+    if (!client) {
+      client = new Anthropic({ apiKey: apiKey || process.env.ANTHROPIC_API_KEY });
+    }
+    return client;
+  };
+
+  return {
+    id: 'anthropic',
+    name: 'Anthropic',
+    models: [
+      {
+        id: 'claude-3-sonnet',
+        name: 'Claude 3 Sonnet',
+        pricing: { input: 0.003, output: 0.015, cachedInput: 0.0003 },
+        maxTokens: 4096,
+        capabilities: ['code', 'chat', 'streaming', 'vision']
+      },
+      {
+        id: 'claude-3-haiku',
+        name: 'Claude 3 Haiku',
+        pricing: { input: 0.00025, output: 0.00125, cachedInput: 0.00003 },
+        maxTokens: 4096,
+        capabilities: ['code', 'chat', 'streaming', 'vision']
+      }
+    ],
+
+    isAvailable() {
+      return Boolean(apiKey || process.env.ANTHROPIC_API_KEY);
+    },
+
+    withApiKey(key) {
+      return createAnthropicProvider(key);
+    },
+
+    async complete(request, signal) {
+      const message = await getClient().messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: toMessages(request),
+        temperature: request.temperature ?? 0.7
+      }, { signal });
+
+      const content = message.content[0];
+      const usage = toUsage(message.usage);
+      return {
+        text: content?.type === 'text' ? content.text : '',
+        tokensUsed: totalTokens(usage),
+        usage
+      };
+    },
+
+    async *stream(request, signal): AsyncGenerator<StreamChunk> {
+      const stream = await getClient().messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: toMessages(request),
+        temperature: request.temperature ?? 0.7,
+        stream: true
+      }, { signal });
+
+      let startUsage: CachingUsage = { input_tokens: 0, output_tokens: 0 };
+      let outputTokens = 0;
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          startUsage = event.message.usage;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield { type: 'delta', text: event.delta.text };
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens;
+        }
+      }
+
+      const usage = toUsage(startUsage, outputTokens);
+      yield { type: 'usage', tokensUsed: totalTokens(usage), usage };
+    }
+  };
+}
+
+export const anthropicProvider = createAnthropicProvider();
\ No newline at end of file
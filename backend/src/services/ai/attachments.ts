@@ -0,0 +1,134 @@
+import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+import fs from 'fs';
+import { getDatabase, QueryAll, QueryRun } from '../../database/init';
+import { promisify } from 'util';
+import { createError } from '../../middleware/errorHandler';
+import { ImageInput, ImageMediaType } from './types';
+
+// Images attached to generations and chat turns. Unlike avatars they are not served
+// from /uploads; GET /api/ai/attachments/:id checks ownership.
+export const ATTACHMENT_DIR = path.join(process.cwd(), 'attachments');
+
+export const MAX_ATTACHMENTS = 4;
+
+export interface Attachment {
+  id: string;
+  user_id: string;
+  generation_id: string | null;
+  file_name: string;
+  original_name: string;
+  mime_type: ImageMediaType;
+  size: number;
+  created_at: string;
+}
+
+export async function recordAttachments(
+  userId: string,
+  generationId: string,
+  files: Express.Multer.File[]
+): Promise<Attachment[]> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const ids: string[] = [];
+  for (const file of files) {
+    const id = uuidv4();
+    await run(
+      `INSERT INTO ai_attachments (id, user_id, generation_id, file_name, original_name, mime_type, size)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, userId, generationId, file.filename, file.originalname, toMediaType(file.mimetype), file.size]
+    );
+    ids.push(id);
+  }
+
+  return loadAttachments(userId, { ids });
+}
+
+// Look up attachments by id and/or everything attached to a generation; all must belong to the user
+export async function loadAttachments(
+  userId: string,
+  selection: { ids?: string[]; generationId?: string }
+): Promise<Attachment[]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const ids = selection.ids || [];
+  const attachments: Attachment[] = [];
+
+  if (selection.generationId) {
+    const fromGeneration = await all(
+      'SELECT * FROM ai_attachments WHERE generation_id = ? AND user_id = ? ORDER BY created_at ASC, rowid ASC',
+      [selection.generationId, userId]
+    ) as Attachment[];
+    attachments.push(...fromGeneration);
+  }
+
+  if (ids.length > 0) {
+    const rows = await all(
+      `SELECT * FROM ai_attachments WHERE user_id = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+      [userId, ...ids]
+    ) as Attachment[];
+    const missing = ids.filter(id => !rows.some(row => row.id === id));
+    if (missing.length > 0) {
+      throw createError(`Attachment not found: ${missing.join(', ')}`, 404);
+    }
+    attachments.push(...ids.map(id => rows.find(row => row.id === id)!));
+  }
+
+  const unique = attachments.filter((attachment, index) =>
+    attachments.findIndex(other => other.id === attachment.id) === index
+  );
+  if (unique.length > MAX_ATTACHMENTS) {
+    throw createError(`At most ${MAX_ATTACHMENTS} images can be attached to a request`, 400);
+  }
+  return unique;
+}
+
+export function getAttachmentPath(attachment: Attachment): string {
+  return path.join(ATTACHMENT_DIR, attachment.file_name);
+}
+
+export async function readImages(attachments: Attachment[]): Promise<ImageInput[]> {
+  return Promise.all(attachments.map(async attachment => ({
+    mediaType: attachment.mime_type,
+    data: (await fs.promises.readFile(getAttachmentPath(attachment))).toString('base64')
+  })));
+}
+
+// Images from a request's uploads, before they are recorded
+export async function readUploadedImages(files: Express.Multer.File[]): Promise<ImageInput[]> {
+  return Promise.all(files.map(async file => ({
+    mediaType: toMediaType(file.mimetype),
+    data: (await fs.promises.readFile(file.path)).toString('base64')
+  })));
+}
+
+// The upload filter only lets images through; some clients send the non-standard image/jpg
+function toMediaType(mimetype: string): ImageMediaType {
+  return (mimetype === 'image/jpg' ? 'image/jpeg' : mimetype) as ImageMediaType;
+}
+
+export function formatAttachment(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    generationId: attachment.generation_id,
+    originalName: attachment.original_name,
+    mimeType: attachment.mime_type,
+    size: attachment.size,
+    url: `/api/ai/attachments/${attachment.id}`,
+    createdAt: attachment.created_at
+  };
+}
+
+export async function deleteUserAttachments(userId: string): Promise<void> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const attachments = await all('SELECT * FROM ai_attachments WHERE user_id = ?', [userId]) as Attachment[];
+  await Promise.all(attachments.map(attachment =>
+    fs.promises.unlink(getAttachmentPath(attachment)).catch(() => undefined)
+  ));
+  await run('DELETE FROM ai_attachments WHERE user_id = ?', [userId]);
+}
@@ -0,0 +1,119 @@
+import { getDatabase, QueryAll, QueryRun } from '../../database/init';
+import { promisify } from 'util';
+import { AIProvider, ChatMessage, CompletionRequest, TokenUsage } from './types';
+import { emptyUsage, estimateTokens } from './tokens';
+
+// Token budget for replayed history; older turns are folded into a running summary
+export const HISTORY_TOKEN_BUDGET = 3000;
+const SUMMARY_MAX_TOKENS = 400;
+
+export interface Conversation {
+  id: string;
+  summary: string | null;
+  summarized_count: number;
+}
+
+export interface HistoryPlan {
+  recent: ChatMessage[];
+  droppedCount: number;
+  summaryRequest: CompletionRequest | null;
+}
+
+export interface PreparedHistory {
+  messages: ChatMessage[];
+  summary: string | null;
+  // Spent on summarizing, charged with the chat turn
+  usage: TokenUsage;
+}
+
+// Split history into the newest messages that fit the budget and the number of older ones left out
+export function selectRecentMessages(
+  messages: ChatMessage[],
+  budget: number = HISTORY_TOKEN_BUDGET
+): { recent: ChatMessage[]; droppedCount: number } {
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (used + cost > budget && start < messages.length) {
+      break;
+    }
+    used += cost;
+    start--;
+  }
+
+  // Providers expect the replayed history to open with a user turn
+  while (start < messages.length && messages[start].role !== 'user') {
+    start++;
+  }
+
+  return { recent: messages.slice(start), droppedCount: start };
+}
+
+export async function loadConversationMessages(conversationId: string): Promise<ChatMessage[]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const rows = await all(
+    `SELECT role, content FROM conversation_messages
+     WHERE conversation_id = ?
+     ORDER BY created_at ASC, rowid ASC`,
+    [conversationId]
+  );
+
+  return rows.map((row: any) => ({ role: row.role, content: row.content }));
+}
+
+// Split off as much history as fits the budget; anything older that the stored
+// summary doesn't cover yet needs a summary request with the same model
+export async function planHistory(conversation: Conversation, model: string): Promise<HistoryPlan> {
+  const history = await loadConversationMessages(conversation.id);
+  const { recent, droppedCount } = selectRecentMessages(history);
+  const summarizedCount = conversation.summarized_count || 0;
+
+  if (droppedCount <= summarizedCount) {
+    return { recent, droppedCount, summaryRequest: null };
+  }
+
+  const transcript = history.slice(summarizedCount, droppedCount)
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  return {
+    recent,
+    droppedCount,
+    summaryRequest: {
+      model,
+      system: 'Summarize the conversation between a user and a coding assistant. Keep decisions, requirements, file names and open questions. Be concise.',
+      messages: [{
+        role: 'user',
+        content: `${conversation.summary ? `Summary so far:\n${conversation.summary}\n\n` : ''}New messages:\n${transcript}`
+      }],
+      maxTokens: SUMMARY_MAX_TOKENS,
+      temperature: 0.2
+    }
+  };
+}
+
+// Run the plan's summary request, if any, and store the new summary
+export async function prepareHistory(
+  conversation: Conversation,
+  plan: HistoryPlan,
+  provider: AIProvider
+): Promise<PreparedHistory> {
+  if (!plan.summaryRequest) {
+    return { messages: plan.recent, summary: conversation.summary, usage: emptyUsage() };
+  }
+
+  const result = await provider.complete(plan.summaryRequest);
+
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+  await run(
+    'UPDATE conversations SET summary = ?, summarized_count = ? WHERE id = ?',
+    [result.text, plan.droppedCount, conversation.id]
+  );
+
+  return { messages: plan.recent, summary: result.text, usage: result.usage };
+}
@@ -0,0 +1,331 @@
+import { validateFilePath } from '../filePaths';
+import { getFileType } from './fileProtocol';
+import { IncomingFile } from '../changesets';
+import { estimateTokens } from './tokens';
+
+// Edit protocol for follow-up prompts: the model patches existing files with
+// SEARCH/REPLACE blocks instead of regenerating the whole project. Unified diffs
+// in ```diff fences are accepted too and converted to the same blocks.
+
+export const EDIT_PROTOCOL_INSTRUCTIONS = `Output format:
+Only change what the request needs. For each existing file you modify, emit one block:
+
+<edit path="src/App.tsx">
+<<<<<<< SEARCH
+exact lines copied from the current file
+=======
+replacement lines
+>>>>>>> REPLACE
+</edit>
+
+- A block may contain several SEARCH/REPLACE pairs; they are applied in order
+- SEARCH text must match the current file exactly, including indentation, and be unique in the file
+- Include a few surrounding lines when a snippet appears more than once
+- Create new files with <file path="src/new.ts">complete contents</file>
+- Delete files with <delete path="src/old.ts" />
+- Put any explanation outside of these blocks`;
+
+export interface ReplaceBlock {
+  search: string;
+  replace: string;
+  // 0-based line hint from a unified diff hunk header, used to pick between repeated matches
+  lineHint?: number;
+}
+
+export type FileEdit =
+  | { kind: 'patch'; path: string; blocks: ReplaceBlock[] }
+  | { kind: 'create'; path: string; content: string }
+  | { kind: 'delete'; path: string };
+
+export interface FailedHunk {
+  index: number;
+  reason: 'not_found' | 'ambiguous' | 'file_missing';
+  search: string;
+}
+
+export interface FileEditResult {
+  path: string;
+  status: 'modified' | 'created' | 'deleted' | 'failed' | 'unchanged';
+  appliedHunks: number;
+  failedHunks: FailedHunk[];
+}
+
+export interface AppliedEdits {
+  files: IncomingFile[];
+  deleted: string[];
+  results: FileEditResult[];
+}
+
+const EDIT_TAG = /<edit\s+path\s*=\s*["']([^"']+)["']\s*>([\s\S]*?)<\/edit>/g;
+const FILE_TAG = /<file\s+path\s*=\s*["']([^"']+)["']\s*>\n?([\s\S]*?)<\/file>/g;
+const DELETE_TAG = /<delete\s+path\s*=\s*["']([^"']+)["']\s*\/?>/g;
+const SEARCH_REPLACE = /<{5,9} ?SEARCH[^\n]*\n([\s\S]*?)\n?={5,9}\n([\s\S]*?)\n?>{5,9} ?REPLACE/g;
+const DIFF_FENCE = /```(?:diff|patch)\n([\s\S]*?)```/g;
+
+export function parseEdits(text: string): { edits: FileEdit[]; errors: string[] } {
+  const edits: FileEdit[] = [];
+  const errors: string[] = [];
+
+  const addEdit = (edit: FileEdit) => {
+    const { path, error } = validateFilePath(edit.path);
+    if (error || !path) {
+      errors.push(error || `Invalid file path: ${edit.path}`);
+      return;
+    }
+
+    // Several patches for one file are applied in sequence as a single edit
+    const existing = edits.find(candidate => candidate.kind === 'patch' && candidate.path === path);
+    if (existing?.kind === 'patch' && edit.kind === 'patch') {
+      existing.blocks.push(...edit.blocks);
+      return;
+    }
+
+    edits.push({ ...edit, path });
+  };
+
+  for (const match of text.matchAll(EDIT_TAG)) {
+    const blocks = Array.from(match[2].matchAll(SEARCH_REPLACE)).map(block => ({
+      search: block[1],
+      replace: block[2]
+    }));
+
+    if (blocks.length === 0) {
+      errors.push(`Edit for ${match[1]} contains no SEARCH/REPLACE blocks`);
+      continue;
+    }
+    addEdit({ kind: 'patch', path: match[1], blocks });
+  }
+
+  for (const match of text.matchAll(FILE_TAG)) {
+    addEdit({ kind: 'create', path: match[1], content: match[2].replace(/\n$/, '') });
+  }
+
+  for (const match of text.matchAll(DELETE_TAG)) {
+    addEdit({ kind: 'delete', path: match[1] });
+  }
+
+  for (const match of text.matchAll(DIFF_FENCE)) {
+    parseUnifiedDiff(match[1]).forEach(addEdit);
+  }
+
+  return { edits, errors };
+}
+
+// Convert a unified diff into patch/create/delete edits, one hunk per block
+export function parseUnifiedDiff(diff: string): FileEdit[] {
+  const edits: FileEdit[] = [];
+  const lines = diff.replace(/\n+$/, '').split('\n');
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!lines[index].startsWith('--- ') || !lines[index + 1]?.startsWith('+++ ')) {
+      index++;
+      continue;
+    }
+
+    const oldPath = stripDiffPrefix(lines[index].slice(4));
+    const newPath = stripDiffPrefix(lines[index + 1].slice(4));
+    index += 2;
+
+    const blocks: ReplaceBlock[] = [];
+    while (index < lines.length && !lines[index].startsWith('--- ')) {
+      const header = lines[index].match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+      if (!header) {
+        index++;
+        continue;
+      }
+      index++;
+
+      const search: string[] = [];
+      const replace: string[] = [];
+      while (index < lines.length && !lines[index].startsWith('@@') && !lines[index].startsWith('--- ')) {
+        const line = lines[index];
+        if (line.startsWith('-')) {
+          search.push(line.slice(1));
+        } else if (line.startsWith('+')) {
+          replace.push(line.slice(1));
+        } else if (line.startsWith(' ') || line === '') {
+          search.push(line.slice(1));
+          replace.push(line.slice(1));
+        }
+        index++;
+      }
+
+      blocks.push({
+        search: search.join('\n'),
+        replace: replace.join('\n'),
+        lineHint: Math.max(parseInt(header[1]) - 1, 0)
+      });
+    }
+
+    if (newPath === null && oldPath) {
+      edits.push({ kind: 'delete', path: oldPath });
+    } else if (oldPath === null && newPath) {
+      edits.push({ kind: 'create', path: newPath, content: blocks.map(block => block.replace).join('\n') });
+    } else if (newPath) {
+      edits.push({ kind: 'patch', path: newPath, blocks });
+    }
+  }
+
+  return edits;
+}
+
+function stripDiffPrefix(path: string): string | null {
+  const trimmed = path.split('\t')[0].trim();
+  if (trimmed === '/dev/null') {
+    return null;
+  }
+  return trimmed.replace(/^[ab]\//, '');
+}
+
+// Apply edits to the current tree. A file is only changed when every one of its
+// hunks applies; otherwise it is left untouched and the failing hunks are reported.
+export function applyEdits(current: Map<string, string>, edits: FileEdit[]): AppliedEdits {
+  const files: IncomingFile[] = [];
+  const deleted: string[] = [];
+  const results: FileEditResult[] = [];
+
+  for (const edit of edits) {
+    if (edit.kind === 'create') {
+      files.push({ path: edit.path, content: edit.content, type: getFileType(edit.path) });
+      results.push({ path: edit.path, status: 'created', appliedHunks: 1, failedHunks: [] });
+      continue;
+    }
+
+    if (edit.kind === 'delete') {
+      if (current.has(edit.path)) {
+        deleted.push(edit.path);
+        results.push({ path: edit.path, status: 'deleted', appliedHunks: 1, failedHunks: [] });
+      } else {
+        results.push({
+          path: edit.path,
+          status: 'failed',
+          appliedHunks: 0,
+          failedHunks: [{ index: 0, reason: 'file_missing', search: '' }]
+        });
+      }
+      continue;
+    }
+
+    const original = current.get(edit.path);
+    if (original === undefined) {
+      results.push({
+        path: edit.path,
+        status: 'failed',
+        appliedHunks: 0,
+        failedHunks: edit.blocks.map((block, index) => ({ index, reason: 'file_missing' as const, search: block.search }))
+      });
+      continue;
+    }
+
+    let content = original;
+    let appliedHunks = 0;
+    const failedHunks: FailedHunk[] = [];
+
+    edit.blocks.forEach((block, index) => {
+      const outcome = applyBlock(content, block);
+      if (typeof outcome === 'string') {
+        content = outcome;
+        appliedHunks++;
+      } else {
+        failedHunks.push({ index, reason: outcome.reason, search: block.search });
+      }
+    });
+
+    if (failedHunks.length > 0) {
+      results.push({ path: edit.path, status: 'failed', appliedHunks, failedHunks });
+    } else if (content === original) {
+      results.push({ path: edit.path, status: 'unchanged', appliedHunks, failedHunks });
+    } else {
+      files.push({ path: edit.path, content, type: getFileType(edit.path) });
+      results.push({ path: edit.path, status: 'modified', appliedHunks, failedHunks });
+    }
+  }
+
+  return { files, deleted, results };
+}
+
+function applyBlock(content: string, block: ReplaceBlock): string | { reason: 'not_found' | 'ambiguous' } {
+  if (!block.search.trim()) {
+    // Pure insertion without context: only unambiguous for an empty file
+    return content.trim() ? { reason: 'ambiguous' } : block.replace;
+  }
+
+  const lines = content.split('\n');
+  const searchLines = block.search.split('\n');
+
+  let matches = findLineMatches(lines, searchLines, (a, b) => a === b);
+  if (matches.length === 0) {
+    // Tolerate trailing whitespace and indentation drift
+    matches = findLineMatches(lines, searchLines, (a, b) => a.trim() === b.trim());
+  }
+
+  if (matches.length === 0) {
+    return { reason: 'not_found' };
+  }
+
+  let start = matches[0];
+  if (matches.length > 1) {
+    if (block.lineHint === undefined) {
+      return { reason: 'ambiguous' };
+    }
+    start = matches.reduce((best, candidate) =>
+      Math.abs(candidate - block.lineHint!) < Math.abs(best - block.lineHint!) ? candidate : best
+    );
+  }
+
+  return [
+    ...lines.slice(0, start),
+    ...(block.replace === '' ? [] : block.replace.split('\n')),
+    ...lines.slice(start + searchLines.length)
+  ].join('\n');
+}
+
+function findLineMatches(
+  lines: string[],
+  searchLines: string[],
+  equals: (a: string, b: string) => boolean
+): number[] {
+  const matches: number[] = [];
+
+  for (let start = 0; start + searchLines.length <= lines.length; start++) {
+    if (searchLines.every((line, offset) => equals(lines[start + offset], line))) {
+      matches.push(start);
+    }
+  }
+
+  return matches;
+}
+
+// Serialize project files for the prompt, newest request paths first, within a token budget.
+// Files that do not fit are listed by path so the model knows they exist.
+export function formatProjectFiles(
+  current: Map<string, string>,
+  budgetTokens: number,
+  preferredPaths: string[] = []
+): string {
+  const ordered = [
+    ...preferredPaths.filter(path => current.has(path)),
+    ...Array.from(current.keys()).filter(path => !preferredPaths.includes(path)).sort()
+  ];
+
+  const included: string[] = [];
+  const omitted: string[] = [];
+  let used = 0;
+
+  for (const path of ordered) {
+    const block = `<current_file path="${path}">\n${current.get(path)}\n</current_file>`;
+    const cost = estimateTokens(block);
+    if (used + cost > budgetTokens) {
+      omitted.push(path);
+      continue;
+    }
+    used += cost;
+    included.push(block);
+  }
+
+  return [
+    ...included,
+    omitted.length > 0 ? `Other files (contents omitted): ${omitted.join(', ')}` : ''
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,246 @@
+import { v4 as uuidv4 } from 'uuid';
+import { validateFilePaths } from '../filePaths';
+
+// Output protocol: the model returns every file as <file path="...">contents</file>.
+// The parser also accepts Markdown code fences annotated with a path and, as a last
+// resort, bare code fences whose file names are guessed from their language.
+
+export const FILE_PROTOCOL_INSTRUCTIONS = `Output format:
+Return every file in its own block, using its path relative to the project root:
+
+<file path="src/App.tsx">
+...complete file contents...
+</file>
+
+- Use forward slashes, with no leading "/" and no ".." segments
+- Emit each path at most once and always include the complete file contents
+- Do not wrap file contents in Markdown code fences
+- Put any explanation outside of the file blocks`;
+
+export type OutputFormat = 'tagged' | 'annotated' | 'fenced' | 'none';
+
+export interface GeneratedFile {
+  id: string;
+  path: string;
+  content: string;
+  type: string;
+  language: string;
+  size: number;
+}
+
+export interface ParseResult {
+  files: GeneratedFile[];
+  errors: string[];
+  warnings: string[];
+  format: OutputFormat;
+}
+
+export interface ParseOptions {
+  // Skip a trailing file that is still being written (used while streaming)
+  partial?: boolean;
+}
+
+interface RawFile {
+  path: string;
+  content: string;
+  language?: string;
+  guessed?: boolean;
+}
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'tsx',
+  js: 'javascript',
+  jsx: 'jsx',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  vue: 'vue',
+  css: 'css',
+  scss: 'scss',
+  html: 'html',
+  json: 'json',
+  md: 'markdown',
+  svg: 'svg'
+};
+
+const OPEN_TAG = /<file\s+path\s*=\s*["']([^"']+)["']\s*>/g;
+const CLOSE_TAG = '</file>';
+const FENCE = /```([\w+-]*)([^\n]*)\n([\s\S]*?)```/g;
+const PATH_LIKE = /^[\w@.\-/\\[\]()]+\.[\w]+$/;
+
+export function parseGeneratedFiles(text: string, techStack: string, options: ParseOptions = {}): ParseResult {
+  const warnings: string[] = [];
+
+  let format: OutputFormat = 'tagged';
+  let rawFiles = parseTaggedFiles(text, options, warnings);
+
+  if (rawFiles.length === 0) {
+    format = 'annotated';
+    rawFiles = parseFencedFiles(text, techStack);
+
+    if (rawFiles.length === 0) {
+      format = 'none';
+    } else if (rawFiles.every(file => file.guessed)) {
+      format = 'fenced';
+      warnings.push('Output did not follow the file protocol; file names were guessed from code block languages');
+    }
+  }
+
+  const { files, errors } = validateFilePaths(rawFiles);
+
+  return {
+    files: files.map(file => toGeneratedFile(file.path, file.content, file.language)),
+    errors,
+    warnings,
+    format
+  };
+}
+
+function parseTaggedFiles(text: string, options: ParseOptions, warnings: string[]): RawFile[] {
+  const openings = Array.from(text.matchAll(OPEN_TAG));
+  const files: RawFile[] = [];
+
+  openings.forEach((opening, index) => {
+    const start = opening.index! + opening[0].length;
+    const nextOpening = index + 1 < openings.length ? openings[index + 1].index! : text.length;
+    const closing = text.indexOf(CLOSE_TAG, start);
+    const path = opening[1];
+
+    let end: number;
+    if (closing !== -1 && closing < nextOpening) {
+      end = closing;
+    } else if (nextOpening === text.length && options.partial) {
+      return;
+    } else {
+      end = nextOpening;
+      warnings.push(`Missing closing tag for ${path}`);
+    }
+
+    files.push({ path, content: unwrapFence(text.slice(start, end)) });
+  });
+
+  return files;
+}
+
+function parseFencedFiles(text: string, techStack: string): RawFile[] {
+  const files: RawFile[] = [];
+  let index = 0;
+
+  for (const match of text.matchAll(FENCE)) {
+    index++;
+    const language = match[1] || 'text';
+    let content = match[3];
+    const preceding = text.slice(0, match.index).split('\n').slice(-3).reverse();
+
+    // Path hints: the fence info string, a heading just above, or a leading comment
+    let path = findPathInInfo(match[2]) || findPathInLines(preceding);
+    if (!path) {
+      const firstLine = content.split('\n')[0];
+      path = findPathInComment(firstLine);
+      if (path) {
+        content = content.slice(firstLine.length + 1);
+      }
+    }
+
+    files.push({
+      path: path || guessFileName(language, content.trim(), index, techStack),
+      content: content.trim(),
+      language,
+      guessed: !path
+    });
+  }
+
+  return files;
+}
+
+function findPathInInfo(info: string): string | null {
+  const trimmed = info.trim();
+  const attribute = trimmed.match(/(?:path|title|file(?:name)?)\s*=\s*["']?([^"'\s]+)["']?/i);
+  if (attribute) {
+    return attribute[1];
+  }
+  return PATH_LIKE.test(trimmed) ? trimmed : null;
+}
+
+function findPathInLines(lines: string[]): string | null {
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const candidate = trimmed
+      .replace(/^#+\s*/, '')
+      .replace(/^(?:\*\*|__)?(?:file(?:name)?|path)\s*:\s*/i, '')
+      .replace(/[*_`:]/g, '')
+      .trim();
+
+    return PATH_LIKE.test(candidate) && candidate.includes('.') ? candidate : null;
+  }
+  return null;
+}
+
+function findPathInComment(line: string): string | null {
+  const match = line.trim().match(/^(?:\/\/|#|\/\*|<!--)\s*(?:file(?:name)?\s*:\s*)?([^\s*]+?)\s*(?:\*\/|-->)?$/i);
+  return match && PATH_LIKE.test(match[1]) && match[1].includes('/') ? match[1] : null;
+}
+
+function unwrapFence(content: string): string {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/^```[^\n]*\n([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1] : content.replace(/^\n/, '').replace(/\n$/, '');
+}
+
+function guessFileName(language: string, content: string, index: number, techStack: string): string {
+  if (language === 'jsx' || language === 'tsx') {
+    return `Component${index}.${language}`;
+  }
+  if (language === 'vue') {
+    return `Component${index}.vue`;
+  }
+  if (language === 'css') {
+    return `styles${index}.css`;
+  }
+  if (language === 'json') {
+    return content.includes('"name"') ? 'package.json' : `config${index}.json`;
+  }
+  if (language === 'html') {
+    return 'index.html';
+  }
+  if (language === 'typescript' || language === 'ts') {
+    return `file${index}.ts`;
+  }
+  if (language === 'javascript' || language === 'js') {
+    return techStack === 'vanilla' ? `main${index}.js` : `file${index}.js`;
+  }
+  return `file${index}.txt`;
+}
+
+// Serialize files back into the output protocol (e.g. after merging repaired files)
+export function formatGeneratedFiles(files: { path: string; content: string }[]): string {
+  return files.map(file => `<file path="${file.path}">\n${file.content}\n</file>`).join('\n\n');
+}
+
+export function getFileType(path: string): string {
+  const fileName = path.split('/').pop() || path;
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
+  if (['tsx', 'jsx', 'vue', 'svelte'].includes(extension)) return 'component';
+  if (['css', 'scss', 'sass', 'less'].includes(extension)) return 'stylesheet';
+  if (['html', 'htm'].includes(extension)) return 'markup';
+  if (extension === 'json' || /\.config\.[cm]?[jt]s$/.test(fileName)) return 'config';
+  if (['ts', 'js', 'mjs', 'cjs'].includes(extension)) return 'script';
+  if (extension === 'md') return 'documentation';
+  return 'text';
+}
+
+function toGeneratedFile(path: string, content: string, language?: string): GeneratedFile {
+  const extension = path.includes('.') ? path.split('.').pop()!.toLowerCase() : '';
+
+  return {
+    id: uuidv4(),
+    path,
+    content,
+    type: getFileType(path),
+    language: EXTENSION_LANGUAGES[extension] || language || 'text',
+    size: content.length
+  };
+}
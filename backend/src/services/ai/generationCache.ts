@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { getDatabase, QueryGet, QueryRun } from '../../database/init';
+import { promisify } from 'util';
+import { CompletionRequest } from './types';
+
+// Identical generation requests from the same user resolve to the generation that
+// already answered them. Entries are keyed by a hash of the normalized request (the
+// rendered system prompt covers the template version and project details), and only
+// point at generations: a lookup checks that the generation is still usable.
+
+// 0 turns the cache off
+export const GENERATION_CACHE_TTL_HOURS = Math.max(parseFloat(process.env.GENERATION_CACHE_TTL_HOURS || '24') || 0, 0);
+
+export interface CachedGeneration {
+  cacheKey: string;
+  generationId: string;
+  status: 'completed' | 'pending' | 'running';
+  hitCount: number;
+  createdAt: string;
+}
+
+export function createCacheKey(userId: string, request: CompletionRequest, verify: boolean): string {
+  const normalized = {
+    userId,
+    model: request.model,
+    techStack: request.techStack,
+    system: request.system,
+    prompt: request.messages.map(message => message.content.trim().replace(/\s+/g, ' ')),
+    maxTokens: request.maxTokens,
+    verify
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+export async function isCacheEnabled(userId: string): Promise<boolean> {
+  if (GENERATION_CACHE_TTL_HOURS === 0) {
+    return false;
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const user = await get('SELECT generation_cache_enabled FROM users WHERE id = ?', [userId]);
+  return Boolean(user?.generation_cache_enabled ?? 1);
+}
+
+// A completed generation that passed (or skipped) verification, or one still in
+// progress that the caller can wait on; anything else is dropped from the cache
+export async function findCachedGeneration(userId: string, cacheKey: string): Promise<CachedGeneration | null> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const entry = await get(
+    `SELECT c.cache_key, c.generation_id, c.hit_count, c.created_at, g.status, g.verification_status
+     FROM generation_cache c
+     LEFT JOIN ai_generations g ON g.id = c.generation_id
+     WHERE c.cache_key = ? AND c.user_id = ? AND c.expires_at > CURRENT_TIMESTAMP`,
+    [cacheKey, userId]
+  );
+
+  if (!entry) {
+    return null;
+  }
+
+  const usable = ['completed', 'pending', 'running'].includes(entry.status) && entry.verification_status !== 'failed';
+  if (!usable) {
+    await run('DELETE FROM generation_cache WHERE cache_key = ?', [cacheKey]);
+    return null;
+  }
+
+  await run(
+    'UPDATE generation_cache SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP WHERE cache_key = ?',
+    [cacheKey]
+  );
+
+  return {
+    cacheKey,
+    generationId: entry.generation_id,
+    status: entry.status,
+    hitCount: entry.hit_count + 1,
+    createdAt: entry.created_at
+  };
+}
+
+export async function recordCacheEntry(userId: string, cacheKey: string, generationId: string): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    `INSERT OR REPLACE INTO generation_cache (cache_key, user_id, generation_id, expires_at)
+     VALUES (?, ?, ?, datetime('now', ?))`,
+    [cacheKey, userId, generationId, `+${Math.round(GENERATION_CACHE_TTL_HOURS * 3600)} seconds`]
+  );
+}
+
+export async function clearUserCache(userId: string): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run('DELETE FROM generation_cache WHERE user_id = ?', [userId]);
+}
+
+// Drop expired entries (lookups already ignore them); run when the generation queue starts
+export async function pruneGenerationCache(): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run('DELETE FROM generation_cache WHERE expires_at <= CURRENT_TIMESTAMP');
+}
+
+export function formatCacheHit(cached: CachedGeneration | null) {
+  return cached
+    ? { hit: true, generationId: cached.generationId, cachedAt: cached.createdAt, hitCount: cached.hitCount }
+    : { hit: false };
+}
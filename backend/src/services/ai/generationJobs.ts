@@ -0,0 +1,207 @@
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../../database/init';
+import { promisify } from 'util';
+import { Job, JobContext, PermanentJobError, recoverJobs, registerJobHandler, startJobWorkers } from '../jobQueue';
+import { calculateCost } from './pricing';
+import { KeySource } from './userKeys';
+import { commitCredits, creditsForUsage, releaseCredits, releaseOrphanedReservations } from '../credits';
+import { createGenerationRequest } from './prompts';
+import { getPromptTemplate, loadProjectMetadata } from './promptTemplates';
+import { isRetryableProviderError } from './providerErrors';
+import { completeWithFallback, resolveModelChain } from './routing';
+import { describeVerificationFailure, verifyAndRepair, VerifiedGeneration } from './repair';
+import { loadAttachments, readImages } from './attachments';
+import { ImageInput } from './types';
+import { pruneGenerationCache } from './generationCache';
+import { describeBlock, moderateContent } from './moderation';
+
+export const GENERATION_JOB = 'generation';
+
+export interface GenerationJobPayload {
+  prompt: string;
+  techStack: string;
+  model: string;
+  complexity: string;
+  keySource: KeySource;
+  verify?: boolean;
+  repairRounds?: number;
+  attachmentIds?: string[];
+  promptTemplateId?: string;
+  projectId?: string;
+  // Tried in order when the model fails with a transient error
+  fallbackModels?: string[];
+}
+
+async function runGeneration(job: Job, { signal }: JobContext): Promise<void> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const {
+    prompt, techStack, model, complexity, keySource, verify, repairRounds, attachmentIds = [], promptTemplateId, projectId,
+    fallbackModels = []
+  } = job.payload as GenerationJobPayload;
+
+  // Stick to the key the job was queued (and reserved) with
+  let chain;
+  let images: ImageInput[];
+  try {
+    chain = await resolveModelChain(
+      job.user_id,
+      [model, ...fallbackModels],
+      attachmentIds.length > 0 ? 'vision' : 'code',
+      keySource || 'platform'
+    );
+    images = await readImages(await loadAttachments(job.user_id, { ids: attachmentIds }));
+  } catch (error: any) {
+    throw new PermanentJobError(error.message);
+  }
+
+  await run(
+    `UPDATE ai_generations SET status = 'running', error_message = NULL WHERE id = ? AND status IN ('pending', 'running')`,
+    [job.generation_id]
+  );
+
+  // Template versions are never deleted, but fall back to the built-in prompt rather than fail
+  const template = promptTemplateId ? await getPromptTemplate(promptTemplateId) : undefined;
+  const project = await loadProjectMetadata(job.user_id, projectId);
+  let completion;
+  try {
+    completion = await completeWithFallback(chain, resolved =>
+      createGenerationRequest(prompt, techStack, resolved.model.id, complexity, resolved.model.maxTokens, images, {
+        template: template?.content,
+        project
+      }), signal);
+  } catch (error: any) {
+    if (signal.aborted) {
+      throw error;
+    }
+
+    // Keep the record pending while the queue backs off, or fail it outright
+    await run(
+      `UPDATE ai_generations SET status = 'pending', error_message = ? WHERE id = ? AND status = 'running'`,
+      [error.message, job.generation_id]
+    );
+
+    if (!isRetryableProviderError(error)) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+
+  // Repairs stay on the model that answered
+  const { resolved, request, result } = completion;
+  const usedModel = resolved.model.id;
+
+  // Jobs queued before verification existed skip it
+  let verified: VerifiedGeneration | null = null;
+  if (verify) {
+    verified = await verifyAndRepair(resolved.provider, request, result, {
+      techStack,
+      maxRounds: repairRounds || 0,
+      signal
+    });
+  }
+
+  if (signal.aborted) {
+    return;
+  }
+
+  const text = verified ? verified.text : result.text;
+  const tokensUsed = verified ? verified.tokensUsed : result.tokensUsed;
+  const usage = verified ? verified.usage : result.usage;
+
+  // Blocked output is neither stored nor charged
+  const moderation = await moderateContent({ userId: job.user_id, endpoint: 'generate', generationId: job.generation_id! }, 'output', text);
+  if (moderation.blocked) {
+    await run(`UPDATE ai_generations SET moderation_status = 'blocked' WHERE id = ?`, [job.generation_id]);
+    throw new PermanentJobError(`Generated output was ${describeBlock(moderation)}`);
+  }
+
+  const failed = verified !== null && !verified.verification.passed;
+  const cost = calculateCost(usedModel, usage);
+
+  await run(
+    `UPDATE ai_generations
+     SET model = ?, generated_code = ?, tokens_used = ?, input_tokens = ?, output_tokens = ?, cached_tokens = ?, cost = ?,
+         status = ?, error_message = ?, verification_status = ?, diagnostics = ?, repair_history = ?, moderation_status = ?, completed_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status = 'running'`,
+    [
+      usedModel,
+      text,
+      tokensUsed,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.cachedTokens,
+      cost,
+      failed ? 'error' : 'completed',
+      failed ? describeVerificationFailure(verified!) : null,
+      verified ? (failed ? 'failed' : 'passed') : 'skipped',
+      verified ? JSON.stringify(verified.verification) : null,
+      verified ? JSON.stringify(verified.repairs) : null,
+      moderation.findings.length > 0 ? 'flagged' : 'passed',
+      job.generation_id
+    ]
+  );
+
+  // Charge for the tokens used, including a generation that failed verification,
+  // unless it was cancelled in the meantime
+  const generation = await get('SELECT status FROM ai_generations WHERE id = ?', [job.generation_id]);
+  if (generation && generation.status !== 'cancelled') {
+    await commitCredits(job.user_id, job.generation_id!, creditsForUsage(usedModel, usage), 'Code generation');
+  }
+}
+
+async function failGeneration(job: Job, error: Error): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    `UPDATE ai_generations
+     SET status = ?, error_message = ?, completed_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status IN ('pending', 'running')`,
+    ['error', error.message, job.generation_id]
+  );
+
+  await releaseCredits(job.user_id, job.generation_id!);
+}
+
+// Generations still pending with no live job were cut off by a restart (inline edit/stream requests)
+async function recoverOrphanedGenerations(): Promise<number> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const orphaned = await all(
+    `SELECT id FROM ai_generations
+     WHERE status IN ('pending', 'running')
+       AND id NOT IN (
+         SELECT generation_id FROM ai_jobs
+         WHERE generation_id IS NOT NULL AND status IN ('queued', 'running')
+       )`
+  );
+
+  for (const generation of orphaned) {
+    await run(
+      `UPDATE ai_generations
+       SET status = ?, error_message = ?, completed_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      ['error', 'Interrupted by server restart', generation.id]
+    );
+  }
+
+  return orphaned.length;
+}
+
+export async function startGenerationQueue(): Promise<void> {
+  registerJobHandler(GENERATION_JOB, { run: runGeneration, onFailed: failGeneration });
+
+  const requeued = await recoverJobs();
+  const interrupted = await recoverOrphanedGenerations();
+  const released = await releaseOrphanedReservations();
+  await pruneGenerationCache();
+  if (requeued || interrupted || released) {
+    console.log(`♻️ Recovered ${requeued} queued generation(s), marked ${interrupted} interrupted generation(s) as failed, released ${released} credit hold(s)`);
+  }
+
+  startJobWorkers();
+}
\ No newline at end of file
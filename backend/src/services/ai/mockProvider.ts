@@ -0,0 +1,302 @@
+import { AIProvider, CompletionRequest, StreamChunk, TokenUsage } from './types';
+import { estimateTokens, totalTokens } from './tokens';
+
+// Offline provider that returns scripted, deterministic output so the
+// generation flow can be developed and tested without API keys or network.
+
+const STREAM_CHUNK_SIZE = 40;
+
+function toComponentName(prompt: string): string {
+  const words = prompt
+    .replace(/[^a-zA-Z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !/^(create|build|make|with|and|the|for|app|that)$/i.test(word))
+    .slice(0, 2);
+
+  const name = words.map(word => word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return name || 'Generated';
+}
+
+function file(path: string, content: string): string {
+  return `<file path="${path}">\n${content.trim()}\n</file>`;
+}
+
+function scriptForStack(techStack: string, prompt: string): string {
+  const name = toComponentName(prompt);
+  const title = `${name} App`;
+
+  switch (techStack) {
+    case 'vue':
+      return [
+        `Here is a Vue implementation of "${title}".`,
+        file('src/App.vue', `
+<template>
+  <main class="app">
+    <h1>{{ title }}</h1>
+    <${name}Panel />
+  </main>
+</template>
+
+<script setup lang="ts">
+import ${name}Panel from './components/${name}Panel.vue';
+
+const title = '${title}';
+</script>`),
+        file(`src/components/${name}Panel.vue`, `
+<template>
+  <section>
+    <p>{{ message }}</p>
+  </section>
+</template>
+
+<script setup lang="ts">
+const message = 'Generated by the mock provider';
+</script>`),
+        file('src/style.css', `
+.app {
+  font-family: system-ui, sans-serif;
+  margin: 0 auto;
+  max-width: 960px;
+  padding: 2rem;
+}`)
+      ].join('\n\n');
+
+    case 'vanilla':
+      return [
+        `Here is a plain HTML/JavaScript implementation of "${title}".`,
+        file('index.html', `
+<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${title}</title>
+    <link rel="stylesheet" href="style.css" />
+  </head>
+  <body>
+    <main id="app"></main>
+    <script type="module" src="main.js"></script>
+  </body>
+</html>`),
+        file('main.js', `
+const app = document.getElementById('app');
+app.innerHTML = '<h1>${title}</h1>';`),
+        file('style.css', `
+body {
+  font-family: system-ui, sans-serif;
+  margin: 0;
+  padding: 2rem;
+}`)
+      ].join('\n\n');
+
+    default:
+      return [
+        `Here is a React implementation of "${title}".`,
+        file('src/App.tsx', `
+import { ${name} } from './components/${name}';
+import './index.css';
+
+export default function App() {
+  return (
+    <main className="app">
+      <h1>${title}</h1>
+      <${name} />
+    </main>
+  );
+}`),
+        file(`src/components/${name}.tsx`, `
+import { useState } from 'react';
+
+export function ${name}() {
+  const [items, setItems] = useState<string[]>([]);
+  const [value, setValue] = useState('');
+
+  const addItem = () => {
+    if (!value.trim()) return;
+    setItems(prev => [...prev, value.trim()]);
+    setValue('');
+  };
+
+  return (
+    <section>
+      <input value={value} onChange={e => setValue(e.target.value)} />
+      <button onClick={addItem}>Add</button>
+      <ul>
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    </section>
+  );
+}`),
+        file('src/index.css', `
+.app {
+  font-family: system-ui, sans-serif;
+  margin: 0 auto;
+  max-width: 960px;
+  padding: 2rem;
+}`)
+      ].join('\n\n');
+  }
+}
+
+// Prepend a comment to the first line of the first file in the edit context
+function scriptEdit(system: string, prompt: string): string {
+  const current = system.match(/<current_file path="([^"]+)">\n([^\n]*)/);
+  const note = prompt.replace(/\s+/g, ' ').substring(0, 80);
+
+  if (!current) {
+    return `Nothing to edit yet.\n\n${file('NOTES.md', `# Notes\n\n- ${note}`)}`;
+  }
+
+  const [, path, firstLine] = current;
+  const comment = /\.(css|scss)$/.test(path) ? `/* ${note} */` : /\.(html|vue)$/.test(path) ? `<!-- ${note} -->` : `// ${note}`;
+
+  return `Applying "${note}" to ${path}.
+
+<edit path="${path}">
+<<<<<<< SEARCH
+${firstLine}
+=======
+${comment}
+${firstLine}
+>>>>>>> REPLACE
+</edit>`;
+}
+
+// Leave the last file (a stylesheet in every script) with an unclosed block
+function breakOutput(text: string): string {
+  const lastClose = text.lastIndexOf('\n</file>');
+  return `${text.slice(0, lastClose)}\n\n.broken {${text.slice(lastClose)}`;
+}
+
+function respond(request: CompletionRequest): string {
+  const lastMessage = request.messages[request.messages.length - 1]?.content || '';
+
+  if (lastMessage.includes('[mock:error]')) {
+    throw new Error('Mock provider error (requested via [mock:error])');
+  }
+
+  if (lastMessage.includes('[mock:rate-limit]')) {
+    // Shaped like the SDK errors so it is treated as transient and retried
+    throw Object.assign(new Error('Mock rate limit exceeded (requested via [mock:rate-limit])'), { status: 429 });
+  }
+
+  // Only the primary mock model is down, so the fallback to mock-backup can be exercised
+  if (lastMessage.includes('[mock:unavailable]') && request.model === 'mock') {
+    throw Object.assign(new Error('Mock model unavailable (requested via [mock:unavailable])'), { status: 503 });
+  }
+
+  if (request.task === 'edit') {
+    return scriptEdit(request.system, lastMessage);
+  }
+
+  // Repairs return the unbroken script for the original prompt
+  if (request.task === 'repair' && request.techStack) {
+    return scriptForStack(request.techStack, request.messages[0].content);
+  }
+
+  if (request.techStack) {
+    const script = scriptForStack(request.techStack, lastMessage);
+    return lastMessage.includes('[mock:broken]') ? breakOutput(script) : script;
+  }
+
+  const images = request.messages[request.messages.length - 1]?.images?.length || 0;
+  return `Mock response to: ${lastMessage.substring(0, 200)}${images > 0 ? ` (with ${images} image(s))` : ''}`;
+}
+
+function countTokens(request: CompletionRequest, text: string): TokenUsage {
+  const input = request.system + request.messages.map(message => message.content).join('');
+  return { inputTokens: estimateTokens(input), outputTokens: estimateTokens(text), cachedTokens: 0 };
+}
+
+// Hashed bag of words: deterministic, and texts sharing words end up close together
+const EMBEDDING_DIMENSIONS = 64;
+
+function embedText(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    vector[hash % EMBEDDING_DIMENSIONS] += 1;
+  }
+  return vector;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    }, { once: true });
+  });
+}
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  models: [
+    {
+      id: 'mock',
+      name: 'Mock model',
+      pricing: { input: 0, output: 0, cachedInput: 0 },
+      maxTokens: 8192,
+      capabilities: ['code', 'chat', 'streaming', 'vision']
+    },
+    {
+      id: 'mock-backup',
+      name: 'Mock fallback model',
+      pricing: { input: 0, output: 0, cachedInput: 0 },
+      maxTokens: 8192,
+      capabilities: ['code', 'chat', 'streaming', 'vision']
+    }
+  ],
+
+  isAvailable() {
+    return process.env.NODE_ENV !== 'production' || process.env.ENABLE_MOCK_PROVIDER === 'true';
+  },
+
+  async complete(request, signal) {
+    const responseDelay = parseInt(process.env.MOCK_PROVIDER_DELAY_MS || '0');
+    if (responseDelay > 0) {
+      await delay(responseDelay, signal);
+    }
+
+    const text = respond(request);
+    const usage = countTokens(request, text);
+    return { text, tokensUsed: totalTokens(usage), usage };
+  },
+
+  embeddingModel: 'mock-embedding',
+
+  async embed(texts) {
+    return {
+      embeddings: texts.map(embedText),
+      tokensUsed: texts.reduce((total, text) => total + estimateTokens(text), 0)
+    };
+  },
+
+  async moderate(text) {
+    const flagged = text.includes('[mock:flagged]');
+    return { flagged, categories: flagged ? ['mock'] : [] };
+  },
+
+  async *stream(request, signal): AsyncGenerator<StreamChunk> {
+    const text = respond(request);
+    const chunkDelay = parseInt(process.env.MOCK_PROVIDER_DELAY_MS || '0');
+
+    for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+      if (chunkDelay > 0) {
+        await delay(chunkDelay, signal);
+      }
+      yield { type: 'delta', text: text.slice(offset, offset + STREAM_CHUNK_SIZE) };
+    }
+
+    const usage = countTokens(request, text);
+    yield { type: 'usage', tokensUsed: totalTokens(usage), usage };
+  }
+};
@@ -0,0 +1,215 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryRun } from '../../database/init';
+import { promisify } from 'util';
+import { createError } from '../../middleware/errorHandler';
+import { getProvider } from './registry';
+
+// Prompts are checked before they reach a model and outputs before they are stored
+// or returned. Each filter reports findings that either block the request or flag
+// it for review; every finding is logged to moderation_events for the admin queue.
+// Blocked requests are not charged.
+
+export type ModerationStage = 'prompt' | 'output';
+export type ModerationAction = 'block' | 'flag';
+
+export interface ModerationFinding {
+  filter: string;
+  category: string;
+  action: ModerationAction;
+}
+
+export interface ModerationFilter {
+  id: string;
+  stages: ModerationStage[];
+  check(text: string, stage: ModerationStage): ModerationFinding[] | Promise<ModerationFinding[]>;
+}
+
+export interface ModerationResult {
+  blocked: boolean;
+  findings: ModerationFinding[];
+  eventId?: string;
+}
+
+export interface ModerationContext {
+  userId: string;
+  endpoint: string;
+  generationId?: string;
+}
+
+// Characters of the checked text kept on an event for reviewers
+const EVENT_EXCERPT_LENGTH = 2000;
+
+interface PatternRule {
+  category: string;
+  pattern: RegExp;
+}
+
+const SECRET_RULES: PatternRule[] = [
+  { category: 'private-key', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY( BLOCK)?-----/ },
+  { category: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { category: 'github-token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { category: 'ai-api-key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{32,}/ },
+  { category: 'stripe-live-key', pattern: /\b[sr]k_live_[A-Za-z0-9]{24,}\b/ },
+  { category: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/ },
+  { category: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ }
+];
+
+// Requests for malicious software, and code that looks like it
+const MALWARE_PROMPT_RULES: PatternRule[] = [
+  { category: 'malware-request', pattern: /\b(?:keylogger|ransomware|rootkit|botnet|cryptojack\w*)s?\b/i },
+  { category: 'malware-request', pattern: /\breverse[- ]shell\b/i },
+  { category: 'credential-theft', pattern: /\b(?:steal|exfiltrate|harvest|grab)\w*\s+(?:\w+\s+){0,3}(?:passwords?|credentials|cookies|session tokens?|credit cards?)\b/i },
+  { category: 'denial-of-service', pattern: /\b(?:ddos|denial[- ]of[- ]service)\s+(?:tool|script|attack|bot)s?\b/i }
+];
+
+const MALWARE_OUTPUT_RULES: PatternRule[] = [
+  { category: 'obfuscated-eval', pattern: /\beval\s*\(\s*(?:atob|unescape|Buffer\.from)\s*\(/ },
+  { category: 'cryptominer', pattern: /\b(?:coinhive|coin-hive|cryptonight|xmrig)\b/i },
+  { category: 'reverse-shell', pattern: /\bnc\s+(?:-\w+\s+)*-e\s+\/bin\/(?:ba)?sh\b|\/dev\/tcp\/\d{1,3}(?:\.\d{1,3}){3}\/\d+/ }
+];
+
+// Attempts to override the system prompt; flagged rather than blocked since the
+// file protocol and verification still constrain what comes back
+const INJECTION_RULES: PatternRule[] = [
+  { category: 'instruction-override', pattern: /\b(?:ignore|disregard|forget)\s+(?:all\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions|prompts?|rules)\b/i },
+  { category: 'system-prompt-extraction', pattern: /\b(?:reveal|print|show|repeat)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions)\b/i },
+  { category: 'role-hijack', pattern: /\byou are now\s+(?:DAN|in developer mode|an? unrestricted)\b/i },
+  { category: 'chat-template-marker', pattern: /<\|im_start\|>|<\|system\|>|\[\/?INST\]/ }
+];
+
+function matchRules(filter: string, rules: PatternRule[], text: string, action: ModerationAction): ModerationFinding[] {
+  const categories = new Set(rules.filter(rule => rule.pattern.test(text)).map(rule => rule.category));
+  return [...categories].map(category => ({ filter, category, action }));
+}
+
+const secretsFilter: ModerationFilter = {
+  id: 'secrets',
+  stages: ['prompt', 'output'],
+  check: text => matchRules('secrets', SECRET_RULES, text, 'block')
+};
+
+const malwareFilter: ModerationFilter = {
+  id: 'malware',
+  stages: ['prompt', 'output'],
+  check: (text, stage) => matchRules('malware', stage === 'prompt' ? MALWARE_PROMPT_RULES : MALWARE_OUTPUT_RULES, text, 'block')
+};
+
+const injectionFilter: ModerationFilter = {
+  id: 'prompt-injection',
+  stages: ['prompt'],
+  check: text => matchRules('prompt-injection', INJECTION_RULES, text, 'flag')
+};
+
+// Optional provider classifier (MODERATION_PROVIDER); if it fails, the local filters still apply
+const classifierFilter: ModerationFilter = {
+  id: 'classifier',
+  stages: ['prompt', 'output'],
+  async check(text) {
+    const providerId = process.env.MODERATION_PROVIDER;
+    const provider = providerId ? getProvider(providerId) : undefined;
+    if (!provider?.moderate || !provider.isAvailable()) {
+      return [];
+    }
+
+    try {
+      const result = await provider.moderate(text);
+      return result.flagged
+        ? (result.categories.length > 0 ? result.categories : ['flagged']).map(category => ({ filter: 'classifier', category, action: 'block' as const }))
+        : [];
+    } catch (error) {
+      console.error('Moderation classifier failed:', error);
+      return [];
+    }
+  }
+};
+
+const filters: ModerationFilter[] = [secretsFilter, malwareFilter, injectionFilter, classifierFilter];
+
+export function registerModerationFilter(filter: ModerationFilter): void {
+  if (filters.some(existing => existing.id === filter.id)) {
+    throw new Error(`Moderation filter ${filter.id} is already registered`);
+  }
+  filters.push(filter);
+}
+
+// Secrets are never written to the review log
+function redactSecrets(text: string): string {
+  return SECRET_RULES.reduce(
+    (redacted, rule) => redacted.replace(new RegExp(rule.pattern.source, `${rule.pattern.flags.replace('g', '')}g`), `[redacted ${rule.category}]`),
+    text
+  );
+}
+
+export async function moderateContent(context: ModerationContext, stage: ModerationStage, text: string): Promise<ModerationResult> {
+  const findings: ModerationFinding[] = [];
+  for (const filter of filters.filter(candidate => candidate.stages.includes(stage))) {
+    findings.push(...await filter.check(text, stage));
+  }
+
+  if (findings.length === 0) {
+    return { blocked: false, findings };
+  }
+
+  const blocked = findings.some(finding => finding.action === 'block');
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const eventId = uuidv4();
+  await run(
+    `INSERT INTO moderation_events (id, user_id, generation_id, endpoint, stage, action, findings, content)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      eventId,
+      context.userId,
+      context.generationId || null,
+      context.endpoint,
+      stage,
+      blocked ? 'blocked' : 'flagged',
+      JSON.stringify(findings),
+      redactSecrets(text).substring(0, EVENT_EXCERPT_LENGTH)
+    ]
+  );
+
+  return { blocked, findings, eventId };
+}
+
+// Blocking findings of the pattern filters, which are cheap enough to run on a
+// streamed output after every chunk; the full pipeline runs once it is complete
+export function findStreamingBlocks(text: string): ModerationFinding[] {
+  return [
+    ...matchRules('secrets', SECRET_RULES, text, 'block'),
+    ...matchRules('malware', MALWARE_OUTPUT_RULES, text, 'block')
+  ];
+}
+
+export function describeBlock(result: ModerationResult): string {
+  const categories = [...new Set(result.findings.filter(finding => finding.action === 'block').map(finding => finding.category))];
+  return `blocked by the content policy (${categories.join(', ')})`;
+}
+
+// Reject a prompt before anything is reserved or sent to a model
+export async function assertPromptAllowed(context: ModerationContext, text: string): Promise<void> {
+  const result = await moderateContent(context, 'prompt', text);
+  if (result.blocked) {
+    throw createError(`Request ${describeBlock(result)}`, 400);
+  }
+}
+
+export function formatModerationEvent(event: any) {
+  return {
+    id: event.id,
+    userId: event.user_id,
+    userEmail: event.user_email,
+    generationId: event.generation_id,
+    endpoint: event.endpoint,
+    stage: event.stage,
+    action: event.action,
+    findings: JSON.parse(event.findings),
+    content: event.content,
+    reviewStatus: event.review_status,
+    reviewedBy: event.reviewed_by,
+    reviewNotes: event.review_notes,
+    reviewedAt: event.reviewed_at,
+    createdAt: event.created_at
+  };
+}
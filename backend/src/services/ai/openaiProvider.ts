@@ -0,0 +1,149 @@
+import OpenAI from 'openai';
+import { AIProvider, ChatMessage, CompletionRequest, StreamChunk, TokenUsage } from './types';
+
+function toMessages(request: CompletionRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    { role: 'system', content: request.system },
+    ...request.messages.map(toMessage)
+  ];
+}
+
+// Images are sent as data URLs after the text
+function toMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (message.role === 'user' && message.images?.length) {
+    return {
+      role: 'user',
+      content: [
+        { type: 'text', text: message.content },
+        ...message.images.map(image => ({
+          type: 'image_url' as const,
+          image_url: { url: `data:${image.mediaType};base64,${image.data}` }
+        }))
+      ]
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | undefined | null): TokenUsage {
+  return {
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens || 0
+  };
+}
+
+// Without an explicit key the provider uses the platform key from the environment
+function createOpenAIProvider(apiKey?: string): AIProvider {
+  let client: OpenAI | null = null;
+
+  const getClient = (): OpenAI => {
+    if (!client) {
+      client = new OpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY });
+    }
+    return client;
+  };
+
+  return {
+    id: 'openai',
+    name: 'OpenAI',
+    models: [
+      {
+        id: 'gpt-4',
+        name: 'GPT-4',
+        pricing: { input: 0.03, output: 0.06, cachedInput: 0.03 },
+        maxTokens: 4096,
+        capabilities: ['code', 'chat', 'streaming']
+      },
+      {
+        id: 'gpt-4o',
+        name: 'GPT-4o',
+        pricing: { input: 0.0025, output: 0.01, cachedInput: 0.00125 },
+        maxTokens: 4096,
+        capabilities: ['code', 'chat', 'streaming', 'vision']
+      },
+      {
+        id: 'gpt-3.5-turbo',
+        name: 'GPT-3.5 Turbo',
+        pricing: { input: 0.0005, output: 0.0015, cachedInput: 0.0005 },
+        maxTokens: 4096,
+        capabilities: ['code', 'chat', 'streaming']
+      }
+    ],
+
+    isAvailable() {
+      return Boolean(apiKey || process.env.OPENAI_API_KEY);
+    },
+
+    withApiKey(key) {
+      return createOpenAIProvider(key);
+    },
+
+    embeddingModel: 'text-embedding-3-small',
+
+    async embed(texts, signal) {
+      const response = await getClient().embeddings.create({
+        model: 'text-embedding-3-small',
+        input: texts
+      }, { signal });
+
+      return {
+        embeddings: response.data.map(item => item.embedding),
+        tokensUsed: response.usage.total_tokens
+      };
+    },
+
+    async moderate(text, signal) {
+      const response = await getClient().moderations.create({
+        model: 'omni-moderation-latest',
+        input: text
+      }, { signal });
+
+      const result = response.results[0];
+      return {
+        flagged: Boolean(result?.flagged),
+        categories: Object.entries(result?.categories || {})
+          .filter(([, flagged]) => flagged)
+          .map(([category]) => category)
+      };
+    },
+
+    async complete(request, signal) {
+      const completion = await getClient().chat.completions.create({
+        model: request.model,
+        messages: toMessages(request),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature ?? 0.7
+      }, { signal });
+
+      return {
+        text: completion.choices[0]?.message?.content || '',
+        tokensUsed: completion.usage?.total_tokens || 0,
+        usage: toUsage(completion.usage)
+      };
+    },
+
+    async *stream(request, signal): AsyncGenerator<StreamChunk> {
+      const stream = await getClient().chat.completions.create({
+        model: request.model,
+        messages: toMessages(request),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature ?? 0.7,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal });
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          yield { type: 'delta', text };
+        }
+        if (chunk.usage) {
+          yield { type: 'usage', tokensUsed: chunk.usage.total_tokens, usage: toUsage(chunk.usage) };
+        }
+      }
+    }
+  };
+}
+
+export const openaiProvider = createOpenAIProvider();
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../../database/init';
+import { promisify } from 'util';
+import { findModel, listProviders } from './registry';
+import { ModelPricing, TokenUsage } from './types';
+
+// Per-model input, output and cached-input prices live in the model_pricing table so
+// they can follow provider price changes without a deploy. Rows are seeded from the
+// model definitions and read into memory, so costs can be computed synchronously.
+
+export interface ModelPricingEntry extends ModelPricing {
+  model: string;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+// For models that have neither a pricing row nor a definition
+const FALLBACK_PRICING: ModelPricing = { input: 0.01, output: 0.01, cachedInput: 0.01 };
+
+const pricing = new Map<string, ModelPricingEntry>();
+
+function toEntry(row: any): ModelPricingEntry {
+  return {
+    model: row.model,
+    input: row.input_per_1k,
+    output: row.output_per_1k,
+    cachedInput: row.cached_input_per_1k,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at
+  };
+}
+
+// Seed rows for new models and load the table; run at startup
+export async function loadModelPricing(): Promise<void> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  for (const model of listProviders().flatMap(provider => provider.models)) {
+    await run(
+      `INSERT OR IGNORE INTO model_pricing (model, input_per_1k, output_per_1k, cached_input_per_1k)
+       VALUES (?, ?, ?, ?)`,
+      [model.id, model.pricing.input, model.pricing.output, model.pricing.cachedInput]
+    );
+  }
+
+  const rows = await all('SELECT * FROM model_pricing');
+  pricing.clear();
+  for (const row of rows) {
+    pricing.set(row.model, toEntry(row));
+  }
+}
+
+// Falls back to the model definition when the table isn't loaded (e.g. in the evaluation CLI)
+export function getModelPricing(modelId: string): ModelPricing {
+  return pricing.get(modelId) || findModel(modelId)?.model.pricing || FALLBACK_PRICING;
+}
+
+export function listModelPricing(): ModelPricingEntry[] {
+  return Array.from(pricing.values()).sort((a, b) => a.model.localeCompare(b.model));
+}
+
+export async function setModelPricing(modelId: string, prices: ModelPricing, updatedBy: string): Promise<ModelPricingEntry> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    `INSERT INTO model_pricing (model, input_per_1k, output_per_1k, cached_input_per_1k, updated_by, updated_at)
+     VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT (model) DO UPDATE SET
+       input_per_1k = excluded.input_per_1k,
+       output_per_1k = excluded.output_per_1k,
+       cached_input_per_1k = excluded.cached_input_per_1k,
+       updated_by = excluded.updated_by,
+       updated_at = excluded.updated_at`,
+    [modelId, prices.input, prices.output, prices.cachedInput, updatedBy]
+  );
+
+  const entry = toEntry(await get('SELECT * FROM model_pricing WHERE model = ?', [modelId]));
+  pricing.set(modelId, entry);
+  return entry;
+}
+
+// USD cost of a request; cached input tokens are billed at the cached rate
+export function calculateCost(modelId: string, usage: TokenUsage): number {
+  const prices = getModelPricing(modelId);
+  const uncachedInput = Math.max(usage.inputTokens - usage.cachedTokens, 0);
+  return (uncachedInput * prices.input + usage.cachedTokens * prices.cachedInput + usage.outputTokens * prices.output) / 1000;
+}
+
+export function formatModelPricing(entry: ModelPricing) {
+  return {
+    inputPer1kTokens: entry.input,
+    outputPer1kTokens: entry.output,
+    cachedInputPer1kTokens: entry.cachedInput
+  };
+}
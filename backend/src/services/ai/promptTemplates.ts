@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../../database/init';
+import { withTransaction } from '../../database/transaction';
+import { promisify } from 'util';
+import { createError } from '../../middleware/errorHandler';
+import { findUnknownVariables, ProjectMetadata } from './prompts';
+
+// Stored system prompts for code generation. Each (tech stack, complexity) pair has
+// numbered, immutable versions; up to two of them carry rollout weights, which split
+// users between them for A/B comparison. `any` matches every stack or complexity.
+
+export const ANY = 'any';
+
+export const MAX_ROLLOUT_VARIANTS = 2;
+
+export interface PromptTemplate {
+  id: string;
+  tech_stack: string;
+  complexity: string;
+  version: number;
+  content: string;
+  notes: string | null;
+  weight: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export async function getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  return await get('SELECT * FROM prompt_templates WHERE id = ?', [id]) as PromptTemplate | undefined;
+}
+
+// The template for a generation: the most specific key with a rollout wins, and
+// each user lands in a stable bucket so they keep seeing the same variant
+export async function selectPromptTemplate(userId: string, techStack: string, complexity: string): Promise<PromptTemplate | null> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const keys = [[techStack, complexity], [techStack, ANY], [ANY, complexity], [ANY, ANY]];
+  for (const [stack, level] of keys) {
+    const variants = await all(
+      'SELECT * FROM prompt_templates WHERE tech_stack = ? AND complexity = ? AND weight > 0 ORDER BY version ASC',
+      [stack, level]
+    ) as PromptTemplate[];
+    if (variants.length === 0) {
+      continue;
+    }
+
+    const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const digest = crypto.createHash('sha256').update(`${userId}:${stack}:${level}`).digest();
+    let bucket = digest.readUInt32BE(0) % total;
+    for (const variant of variants) {
+      if (bucket < variant.weight) {
+        return variant;
+      }
+      bucket -= variant.weight;
+    }
+  }
+
+  return null;
+}
+
+export async function createPromptTemplate(
+  techStack: string,
+  complexity: string,
+  content: string,
+  notes: string | null,
+  createdBy: string
+): Promise<PromptTemplate> {
+  const unknown = findUnknownVariables(content);
+  if (unknown.length > 0) {
+    throw createError(`Unknown template variable(s): ${unknown.join(', ')}`, 400);
+  }
+
+  const id = uuidv4();
+  await withTransaction(async () => {
+    const db = getDatabase();
+    const get = promisify(db.get.bind(db)) as QueryGet;
+    const run = promisify(db.run.bind(db)) as QueryRun;
+
+    const latest = await get(
+      'SELECT MAX(version) AS version FROM prompt_templates WHERE tech_stack = ? AND complexity = ?',
+      [techStack, complexity]
+    );
+    await run(
+      `INSERT INTO prompt_templates (id, tech_stack, complexity, version, content, notes, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, techStack, complexity, (latest?.version || 0) + 1, content, notes, createdBy]
+    );
+  });
+
+  return (await getPromptTemplate(id))!;
+}
+
+// Replace the rollout for a key; weights are percentages, and no variants means the
+// key falls back to a less specific one (or the built-in prompt)
+export async function setRollout(
+  techStack: string,
+  complexity: string,
+  variants: { templateId: string; weight: number }[]
+): Promise<PromptTemplate[]> {
+  if (variants.length > 0 && variants.reduce((sum, variant) => sum + variant.weight, 0) !== 100) {
+    throw createError('Rollout weights must add up to 100', 400);
+  }
+
+  await withTransaction(async () => {
+    const db = getDatabase();
+    const get = promisify(db.get.bind(db)) as QueryGet;
+    const run = promisify(db.run.bind(db)) as QueryRun;
+
+    for (const variant of variants) {
+      const template = await get(
+        'SELECT id FROM prompt_templates WHERE id = ? AND tech_stack = ? AND complexity = ?',
+        [variant.templateId, techStack, complexity]
+      );
+      if (!template) {
+        throw createError(`Template ${variant.templateId} is not a version of ${techStack}/${complexity}`, 400);
+      }
+    }
+
+    await run('UPDATE prompt_templates SET weight = 0 WHERE tech_stack = ? AND complexity = ?', [techStack, complexity]);
+    for (const variant of variants) {
+      await run('UPDATE prompt_templates SET weight = ? WHERE id = ?', [variant.weight, variant.templateId]);
+    }
+  });
+
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  return await all(
+    'SELECT * FROM prompt_templates WHERE tech_stack = ? AND complexity = ? AND weight > 0 ORDER BY version ASC',
+    [techStack, complexity]
+  ) as PromptTemplate[];
+}
+
+// Generation outcomes per template version, for comparing A/B variants
+export async function getTemplateStats(techStack: string, complexity: string) {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const rows = await all(
+    `SELECT t.id, t.version, t.weight,
+       COUNT(g.id) AS generations,
+       SUM(CASE WHEN g.status = 'completed' THEN 1 ELSE 0 END) AS completed,
+       SUM(CASE WHEN g.verification_status = 'passed' THEN 1 ELSE 0 END) AS verification_passed,
+       SUM(CASE WHEN g.verification_status = 'failed' THEN 1 ELSE 0 END) AS verification_failed,
+       SUM(CASE WHEN g.applied_at IS NOT NULL THEN 1 ELSE 0 END) AS applied,
+       AVG(g.tokens_used) AS average_tokens
+     FROM prompt_templates t
+     LEFT JOIN ai_generations g ON g.prompt_template_id = t.id
+     WHERE t.tech_stack = ? AND t.complexity = ?
+     GROUP BY t.id
+     ORDER BY t.version ASC`,
+    [techStack, complexity]
+  );
+
+  return rows.map((row: any) => ({
+    templateId: row.id,
+    version: row.version,
+    weight: row.weight,
+    generations: row.generations,
+    completed: row.completed || 0,
+    verificationPassed: row.verification_passed || 0,
+    verificationFailed: row.verification_failed || 0,
+    applied: row.applied || 0,
+    averageTokens: row.average_tokens === null ? null : Math.round(row.average_tokens)
+  }));
+}
+
+export async function loadProjectMetadata(userId: string, projectId?: string | null): Promise<ProjectMetadata> {
+  if (!projectId) {
+    return {};
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const project = await get('SELECT name, description FROM projects WHERE id = ? AND user_id = ?', [projectId, userId]);
+  return project ? { name: project.name, description: project.description } : {};
+}
+
+export function formatPromptTemplate(template: PromptTemplate) {
+  return {
+    id: template.id,
+    techStack: template.tech_stack,
+    complexity: template.complexity,
+    version: template.version,
+    content: template.content,
+    notes: template.notes,
+    weight: template.weight,
+    createdBy: template.created_by,
+    createdAt: template.created_at
+  };
+}
@@ -0,0 +1,119 @@
+import { CompletionRequest, ImageInput } from './types';
+import { FILE_PROTOCOL_INSTRUCTIONS } from './fileProtocol';
+
+// Variables available to generation prompt templates as {{name}}
+export const PROMPT_TEMPLATE_VARIABLES = ['techStack', 'complexity', 'complexityGuidelines', 'projectName', 'projectDescription'] as const;
+
+export type PromptVariables = Record<typeof PROMPT_TEMPLATE_VARIABLES[number], string>;
+
+export interface ProjectMetadata {
+  name?: string | null;
+  description?: string | null;
+}
+
+// Used when no stored template is active for the stack and complexity
+export const DEFAULT_PROMPT_TEMPLATE = `You are an expert {{techStack}} developer. Generate clean, production-ready code based on the user's requirements.
+
+Tech Stack: {{techStack}}
+Complexity Level: {{complexity}}
+
+Guidelines:
+- Write modern, clean, and well-structured code
+- Include proper error handling
+- Add helpful comments
+- Follow best practices for {{techStack}}
+- Make the code responsive and accessible
+- Include necessary imports and dependencies
+{{complexityGuidelines}}
+
+Provide complete, working code that can be directly used in a project.`;
+
+// Build the completion request for a full code generation
+export function createGenerationRequest(
+  prompt: string,
+  techStack: string,
+  model: string,
+  complexity: string,
+  modelMaxTokens: number,
+  images: ImageInput[] = [],
+  options: { template?: string; project?: ProjectMetadata } = {}
+): CompletionRequest {
+  return {
+    model,
+    system: createSystemPrompt(options.template || DEFAULT_PROMPT_TEMPLATE, techStack, complexity, options.project || {}, images.length > 0),
+    messages: [{ role: 'user', content: prompt, ...(images.length > 0 ? { images } : {}) }],
+    maxTokens: Math.min(getMaxTokens(complexity), modelMaxTokens),
+    temperature: 0.7,
+    task: 'generate',
+    techStack
+  };
+}
+
+// The file protocol is always appended: parsing the output depends on it, so templates can't change it
+function createSystemPrompt(template: string, techStack: string, complexity: string, project: ProjectMetadata, hasImages: boolean): string {
+  const system = renderPromptTemplate(template, {
+    techStack,
+    complexity,
+    complexityGuidelines: getComplexityGuidelines(complexity),
+    projectName: project.name || 'Untitled project',
+    projectDescription: project.description || ''
+  });
+
+  const imageGuideline = hasImages
+    ? '\n\nThe attached images are screenshots or mockups: reproduce their layout, content and styling as closely as possible.'
+    : '';
+
+  return `${system}${imageGuideline}
+
+${FILE_PROTOCOL_INSTRUCTIONS}`;
+}
+
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name as keyof PromptVariables] : match
+  );
+}
+
+// Names used in a template that aren't known variables
+export function findUnknownVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+  return Array.from(new Set(names.filter(name => !(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name))));
+}
+
+function getComplexityGuidelines(complexity: string): string {
+  switch (complexity) {
+    case 'simple': return '- Keep the implementation straightforward and minimal';
+    case 'complex': return '- Implement advanced features and optimizations';
+    default: return '';
+  }
+}
+
+// Follow-up turn asking the model to fix the problems found in its previous output
+export function createRepairRequest(request: CompletionRequest, previousOutput: string, diagnostics: string): CompletionRequest {
+  return {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: previousOutput },
+      {
+        role: 'user',
+        content: `Checking the files you returned found these problems:
+
+${diagnostics}
+
+Fix them. Return the complete corrected contents of every file that needs changes, using the same <file path="..."> format. Files you don't return are kept as they are.`
+      }
+    ],
+    temperature: 0.2,
+    task: 'repair'
+  };
+}
+
+export function getMaxTokens(complexity: string): number {
+  switch (complexity) {
+    case 'simple': return 1500;
+    case 'medium': return 3000;
+    case 'complex': return 4000;
+    default: return 3000;
+  }
+}
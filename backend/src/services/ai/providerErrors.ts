@@ -0,0 +1,16 @@
+// Classify provider SDK errors: rate limits, timeouts, connection failures and
+// 5xx responses are transient and worth retrying; everything else is not.
+export function isRetryableProviderError(error: any): boolean {
+  if (!error || error.name === 'AbortError') {
+    return false;
+  }
+
+  const status = typeof error.status === 'number' ? error.status : undefined;
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  return /timeout|timed out|connection|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/i.test(
+    `${error.name || ''} ${error.code || ''} ${error.message || ''}`
+  );
+}
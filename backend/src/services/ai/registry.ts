@@ -0,0 +1,61 @@
+import { createError } from '../../middleware/errorHandler';
+import { AIProvider, ModelCapability, ModelDefinition } from './types';
+import { openaiProvider } from './openaiProvider';
+import { anthropicProvider } from './anthropicProvider';
+import { mockProvider } from './mockProvider';
+
+const providers = new Map<string, AIProvider>();
+
+export function registerProvider(provider: AIProvider): void {
+  providers.set(provider.id, provider);
+}
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(mockProvider);
+
+export function getProvider(providerId: string): AIProvider | undefined {
+  return providers.get(providerId);
+}
+
+export function listProviders(): AIProvider[] {
+  return Array.from(providers.values());
+}
+
+// Every model id known to the registry, whether or not its provider is configured
+export function getModelIds(): string[] {
+  return listProviders().flatMap(provider => provider.models.map(model => model.id));
+}
+
+export function findModel(modelId: string): { provider: AIProvider; model: ModelDefinition } | undefined {
+  for (const provider of providers.values()) {
+    const model = provider.models.find(candidate => candidate.id === modelId);
+    if (model) {
+      return { provider, model };
+    }
+  }
+  return undefined;
+}
+
+// Resolve a model to its provider, failing if it is unknown, unconfigured or lacks a capability
+export function resolveModel(
+  modelId: string,
+  capability?: ModelCapability,
+  options: { skipAvailability?: boolean } = {}
+): { provider: AIProvider; model: ModelDefinition } {
+  const resolved = findModel(modelId);
+
+  if (!resolved) {
+    throw createError(`Unsupported model: ${modelId}`, 400);
+  }
+
+  if (!options.skipAvailability && !resolved.provider.isAvailable()) {
+    throw createError(`Model ${modelId} is not available: ${resolved.provider.name} is not configured`, 503);
+  }
+
+  if (capability && !resolved.model.capabilities.includes(capability)) {
+    throw createError(`Model ${modelId} does not support ${capability}`, 400);
+  }
+
+  return resolved;
+}
@@ -0,0 +1,105 @@
+import { AIProvider, CompletionRequest, CompletionResult, TokenUsage } from './types';
+import { addUsage } from './tokens';
+import { formatGeneratedFiles, parseGeneratedFiles } from './fileProtocol';
+import { createRepairRequest } from './prompts';
+import { CodeDiagnostic, formatDiagnostics, VerificationResult, verifyFiles } from './verification';
+
+export const MAX_REPAIR_ROUNDS = 3;
+
+// Repair rounds per generation unless the request asks for a different number
+export const DEFAULT_REPAIR_ROUNDS = Math.min(
+  Math.max(parseInt(process.env.GENERATION_REPAIR_ROUNDS || '1') || 0, 0),
+  MAX_REPAIR_ROUNDS
+);
+
+export interface RepairRound {
+  round: number;
+  // The errors sent back to the model
+  diagnostics: CodeDiagnostic[];
+  repairedPaths: string[];
+  tokensUsed: number;
+  remainingErrors: number;
+  error?: string;
+}
+
+export interface VerifiedGeneration {
+  text: string;
+  // Including the repair rounds
+  tokensUsed: number;
+  usage: TokenUsage;
+  verification: VerificationResult;
+  repairs: RepairRound[];
+}
+
+export interface VerifyOptions {
+  techStack: string;
+  maxRounds: number;
+  signal?: AbortSignal;
+  onRound?: (round: RepairRound) => void;
+}
+
+// Check the generated files and, while errors remain, ask the model to fix them.
+// Repaired files replace the originals by path; everything else is kept.
+export async function verifyAndRepair(
+  provider: AIProvider,
+  request: CompletionRequest,
+  result: CompletionResult,
+  options: VerifyOptions
+): Promise<VerifiedGeneration> {
+  let text = result.text;
+  let tokensUsed = result.tokensUsed;
+  let usage = result.usage;
+  let files = parseGeneratedFiles(text, options.techStack).files;
+  let verification = verifyFiles(files);
+  const repairs: RepairRound[] = [];
+
+  for (let round = 1; round <= options.maxRounds && !verification.passed; round++) {
+    const errors = verification.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    const repairRound: RepairRound = {
+      round,
+      diagnostics: errors,
+      repairedPaths: [],
+      tokensUsed: 0,
+      remainingErrors: verification.errorCount
+    };
+
+    try {
+      const repaired = await provider.complete(createRepairRequest(request, text, formatDiagnostics(errors)), options.signal);
+      const repairedFiles = parseGeneratedFiles(repaired.text, options.techStack).files;
+      repairRound.tokensUsed = repaired.tokensUsed;
+      tokensUsed += repaired.tokensUsed;
+      usage = addUsage(usage, repaired.usage);
+
+      const merged = new Map(files.map(file => [file.path, file]));
+      for (const file of repairedFiles) {
+        merged.set(file.path, file);
+      }
+      files = Array.from(merged.values());
+      text = formatGeneratedFiles(files);
+      verification = verifyFiles(files);
+
+      repairRound.repairedPaths = repairedFiles.map(file => file.path);
+      repairRound.remainingErrors = verification.errorCount;
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      // Keep the last checked output rather than failing the whole generation
+      repairRound.error = error.message;
+      repairs.push(repairRound);
+      options.onRound?.(repairRound);
+      break;
+    }
+
+    repairs.push(repairRound);
+    options.onRound?.(repairRound);
+  }
+
+  return { text, tokensUsed, usage, verification, repairs };
+}
+
+// Why a generation failed verification, for ai_generations.error_message
+export function describeVerificationFailure(verified: VerifiedGeneration): string {
+  const { errorCount } = verified.verification;
+  return `Generated code failed verification with ${errorCount} error(s) after ${verified.repairs.length} repair round(s)`;
+}
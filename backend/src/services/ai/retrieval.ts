@@ -0,0 +1,314 @@
+import crypto from 'crypto';
+import { getDatabase, QueryAll, QueryRun } from '../../database/init';
+import { promisify } from 'util';
+import { getProvider } from './registry';
+import { estimateTokens } from './tokens';
+import { AIProvider } from './types';
+
+// Retrieval over a project's files for chat context. Files are split into line-based
+// chunks and ranked against the question with BM25; when an embedding provider is
+// configured (RETRIEVAL_EMBEDDING_PROVIDER), cosine similarity is blended in.
+
+export interface RetrievedContext {
+  context: string;
+  paths: string[];
+  fileCount: number;
+  method: 'bm25' | 'hybrid';
+}
+
+interface Chunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface ProjectIndex {
+  signature: string;
+  chunks: Chunk[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+  paths: string[];
+}
+
+const CHUNK_MAX_LINES = 60;
+const CHUNK_MAX_CHARS = 1600;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Weight of the embedding similarity in hybrid ranking
+const EMBEDDING_WEIGHT = 0.5;
+const EMBEDDING_BATCH_SIZE = 100;
+
+// File names listed in the context so the model knows what else exists
+const MAX_LISTED_PATHS = 200;
+
+const INDEX_CACHE_SIZE = 50;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'how', 'what', 'why', 'when', 'where',
+  'this', 'that', 'with', 'from', 'into', 'does', 'should', 'would', 'could', 'there', 'their', 'about',
+  'is', 'it', 'of', 'to', 'in', 'on', 'an', 'or', 'be', 'do', 'if', 'my', 'me', 'we', 'as', 'at', 'by'
+]);
+
+// Indexes are rebuilt when a project's files change
+const indexCache = new Map<string, ProjectIndex>();
+
+export async function retrieveProjectContext(projectId: string, query: string, budgetTokens: number): Promise<RetrievedContext> {
+  const index = await getProjectIndex(projectId);
+  if (index.chunks.length === 0) {
+    return { context: '', paths: [], fileCount: 0, method: 'bm25' };
+  }
+
+  let scores = scoreBm25(index, tokenize(query));
+  let method: RetrievedContext['method'] = 'bm25';
+
+  const embeddingProvider = getEmbeddingProvider();
+  if (embeddingProvider) {
+    try {
+      scores = await blendEmbeddingScores(embeddingProvider, index, query, scores);
+      method = 'hybrid';
+    } catch (error) {
+      // Lexical ranking alone still works
+      console.error('Embedding retrieval failed:', error);
+    }
+  }
+
+  const listing = `Project files: ${index.paths.slice(0, MAX_LISTED_PATHS).join(', ')}${index.paths.length > MAX_LISTED_PATHS ? ', ...' : ''}`;
+  const selected = selectChunks(index.chunks, scores, budgetTokens - estimateTokens(listing));
+
+  return {
+    context: [listing, ...formatChunks(selected)].join('\n\n'),
+    paths: Array.from(new Set(selected.map(chunk => chunk.path))),
+    fileCount: index.paths.length,
+    method
+  };
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    // Split camelCase and PascalCase identifiers into words
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term));
+}
+
+export function chunkFile(path: string, content: string): Omit<Chunk, 'terms' | 'length'>[] {
+  const lines = content.split('\n');
+  const chunks: Omit<Chunk, 'terms' | 'length'>[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = start;
+    let chars = 0;
+    while (end < lines.length && end - start < CHUNK_MAX_LINES && (end === start || chars + lines[end].length <= CHUNK_MAX_CHARS)) {
+      chars += lines[end].length + 1;
+      end++;
+    }
+
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) {
+      chunks.push({ path, startLine: start + 1, endLine: end, text });
+    }
+    start = end;
+  }
+
+  return chunks;
+}
+
+async function getProjectIndex(projectId: string): Promise<ProjectIndex> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const rows = await all(
+    `SELECT file_path, file_content FROM project_files
+     WHERE project_id = ? AND branch = (SELECT COALESCE(current_branch, 'main') FROM projects WHERE id = ?)
+     ORDER BY file_path`,
+    [projectId, projectId]
+  ) as { file_path: string; file_content: string | null }[];
+
+  const hash = crypto.createHash('sha1');
+  for (const row of rows) {
+    hash.update(`${row.file_path}\0${row.file_content ?? ''}\0`);
+  }
+  const signature = hash.digest('hex');
+
+  const cached = indexCache.get(projectId);
+  if (cached?.signature === signature) {
+    return cached;
+  }
+
+  const index = buildIndex(signature, rows.map(row => ({ path: row.file_path, content: row.file_content ?? '' })));
+
+  indexCache.delete(projectId);
+  indexCache.set(projectId, index);
+  if (indexCache.size > INDEX_CACHE_SIZE) {
+    indexCache.delete(indexCache.keys().next().value!);
+  }
+  return index;
+}
+
+function buildIndex(signature: string, files: { path: string; content: string }[]): ProjectIndex {
+  const chunks: Chunk[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const file of files) {
+    // File names count as part of every chunk so "the header component" finds Header.tsx
+    const pathTerms = tokenize(file.path);
+
+    for (const chunk of chunkFile(file.path, file.content)) {
+      const words = [...pathTerms, ...tokenize(chunk.text)];
+      const terms = new Map<string, number>();
+      for (const word of words) {
+        terms.set(word, (terms.get(word) || 0) + 1);
+      }
+      for (const term of terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+      chunks.push({ ...chunk, terms, length: words.length });
+    }
+  }
+
+  const totalLength = chunks.reduce((total, chunk) => total + chunk.length, 0);
+
+  return {
+    signature,
+    chunks,
+    documentFrequency,
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    paths: files.map(file => file.path)
+  };
+}
+
+function scoreBm25(index: ProjectIndex, queryTerms: string[]): number[] {
+  const count = index.chunks.length;
+  const uniqueTerms = Array.from(new Set(queryTerms));
+
+  return index.chunks.map(chunk => {
+    let score = 0;
+    for (const term of uniqueTerms) {
+      const frequency = chunk.terms.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documents = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * chunk.length / index.averageLength));
+    }
+    return score;
+  });
+}
+
+function getEmbeddingProvider(): AIProvider | null {
+  const providerId = process.env.RETRIEVAL_EMBEDDING_PROVIDER;
+  if (!providerId) {
+    return null;
+  }
+
+  const provider = getProvider(providerId);
+  return provider?.embed && provider.isAvailable() ? provider : null;
+}
+
+// Normalized BM25 blended with cosine similarity; chunk embeddings are cached by content
+async function blendEmbeddingScores(
+  provider: AIProvider,
+  index: ProjectIndex,
+  query: string,
+  bm25: number[]
+): Promise<number[]> {
+  const texts = index.chunks.map(chunk => `${chunk.path}\n${chunk.text}`);
+  const embeddings = await getEmbeddings(provider, texts);
+  const [queryEmbedding] = (await provider.embed!([query])).embeddings;
+
+  const maxBm25 = Math.max(...bm25, 0);
+  return bm25.map((score, position) => {
+    const lexical = maxBm25 > 0 ? score / maxBm25 : 0;
+    const semantic = Math.max(cosineSimilarity(queryEmbedding, embeddings[position]), 0);
+    return (1 - EMBEDDING_WEIGHT) * lexical + EMBEDDING_WEIGHT * semantic;
+  });
+}
+
+async function getEmbeddings(provider: AIProvider, texts: string[]): Promise<number[][]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const model = `${provider.id}:${provider.embeddingModel}`;
+  const hashes = texts.map(text => crypto.createHash('sha256').update(text).digest('hex'));
+  const embeddings = new Map<string, number[]>();
+
+  for (let offset = 0; offset < hashes.length; offset += EMBEDDING_BATCH_SIZE) {
+    const batch = hashes.slice(offset, offset + EMBEDDING_BATCH_SIZE);
+    const rows = await all(
+      `SELECT content_hash, embedding FROM chunk_embeddings
+       WHERE model = ? AND content_hash IN (${batch.map(() => '?').join(', ')})`,
+      [model, ...batch]
+    ) as { content_hash: string; embedding: string }[];
+    for (const row of rows) {
+      embeddings.set(row.content_hash, JSON.parse(row.embedding));
+    }
+  }
+
+  const missing = hashes
+    .map((hash, position) => ({ hash, text: texts[position] }))
+    .filter(({ hash }, position) => !embeddings.has(hash) && hashes.indexOf(hash) === position);
+
+  for (let offset = 0; offset < missing.length; offset += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(offset, offset + EMBEDDING_BATCH_SIZE);
+    const result = await provider.embed!(batch.map(item => item.text));
+
+    for (const [position, item] of batch.entries()) {
+      embeddings.set(item.hash, result.embeddings[position]);
+      await run(
+        'INSERT OR REPLACE INTO chunk_embeddings (content_hash, model, embedding) VALUES (?, ?, ?)',
+        [item.hash, model, JSON.stringify(result.embeddings[position])]
+      );
+    }
+  }
+
+  return hashes.map(hash => embeddings.get(hash)!);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let position = 0; position < a.length; position++) {
+    dot += a[position] * b[position];
+    normA += a[position] * a[position];
+    normB += b[position] * b[position];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Highest-scoring chunks that fit the budget, skipping ones that are too large
+function selectChunks(chunks: Chunk[], scores: number[], budgetTokens: number): Chunk[] {
+  const ranked = chunks
+    .map((chunk, position) => ({ chunk, score: scores[position] }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const selected: Chunk[] = [];
+  let used = 0;
+  for (const { chunk } of ranked) {
+    const cost = estimateTokens(chunk.text) + 20;
+    if (used + cost > budgetTokens) {
+      continue;
+    }
+    used += cost;
+    selected.push(chunk);
+  }
+
+  return selected.sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine);
+}
+
+function formatChunks(chunks: Chunk[]): string[] {
+  return chunks.map(chunk =>
+    `<file path="${chunk.path}" lines="${chunk.startLine}-${chunk.endLine}">\n${chunk.text}\n</file>`
+  );
+}
@@ -0,0 +1,162 @@
+import { CompletionRequest, CompletionResult, ModelCapability, StreamChunk } from './types';
+import { findModel } from './registry';
+import { isRetryableProviderError } from './providerErrors';
+import { KeySource, ResolvedModel, resolveModelForUser } from './userKeys';
+import { Complexity, getEntitlements, isModelAllowed } from '../entitlements';
+
+// Which model serves a generation when the request doesn't name one, and which
+// models stand in when it fails with a transient error. Both can be overridden
+// with JSON in MODEL_ROUTING and MODEL_FALLBACKS.
+
+// Candidates per complexity, first one the plan allows and a provider serves wins
+const DEFAULT_ROUTING: Record<string, string[]> = {
+  simple: ['gpt-3.5-turbo', 'claude-3-haiku'],
+  complex: ['gpt-4o', 'gpt-4', 'claude-3-sonnet']
+};
+
+// Ordered stand-ins per model, preferably on another provider
+const DEFAULT_FALLBACKS: Record<string, string[]> = {
+  'gpt-4': ['claude-3-sonnet', 'gpt-4o'],
+  'gpt-4o': ['claude-3-sonnet', 'gpt-4'],
+  'gpt-3.5-turbo': ['claude-3-haiku'],
+  'claude-3-sonnet': ['gpt-4o', 'gpt-4'],
+  'claude-3-haiku': ['gpt-3.5-turbo'],
+  'mock': ['mock-backup']
+};
+
+export type RoutedBy = 'request' | 'complexity' | 'plan';
+
+export interface FallbackAttempt {
+  model: string;
+  error: string;
+}
+
+function readConfig(name: string, defaults: Record<string, string[]>): Record<string, string[]> {
+  const raw = process.env[name];
+  if (!raw) {
+    return defaults;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const valid = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) &&
+      Object.values(parsed).every(value => Array.isArray(value) && value.every(item => typeof item === 'string'));
+    if (!valid) {
+      throw new Error('expected an object of model id arrays');
+    }
+    return parsed;
+  } catch (error: any) {
+    console.warn(`Ignoring invalid ${name}: ${error.message}`);
+    return defaults;
+  }
+}
+
+const routing = readConfig('MODEL_ROUTING', DEFAULT_ROUTING);
+const fallbacks = readConfig('MODEL_FALLBACKS', DEFAULT_FALLBACKS);
+
+// The model for a generation: the requested one, else the complexity route, else the plan default
+export function routeModel(plan: string, complexity: Complexity, requestedModel?: string): { model: string; routedBy: RoutedBy } {
+  if (requestedModel) {
+    return { model: requestedModel, routedBy: 'request' };
+  }
+
+  const entitlements = getEntitlements(plan);
+  const routed = (routing[complexity] || []).find(modelId =>
+    isModelAllowed(entitlements, modelId) && findModel(modelId)?.provider.isAvailable()
+  );
+
+  return routed
+    ? { model: routed, routedBy: 'complexity' }
+    : { model: entitlements.defaultModel, routedBy: 'plan' };
+}
+
+export function getFallbackModels(plan: string, modelId: string): string[] {
+  const entitlements = getEntitlements(plan);
+  return (fallbacks[modelId] || []).filter(candidate => candidate !== modelId && isModelAllowed(entitlements, candidate));
+}
+
+// Resolve the primary model (errors propagate) and then its fallbacks on the same key
+// source; fallbacks that can't be served (unconfigured provider, no user key, missing
+// capability) are skipped
+export async function resolveModelChain(
+  userId: string,
+  modelIds: string[],
+  capability: ModelCapability,
+  keySource?: KeySource
+): Promise<ResolvedModel[]> {
+  const [primaryId, ...fallbackIds] = modelIds;
+  const primary = await resolveModelForUser(userId, primaryId, capability, keySource);
+
+  const chain = [primary];
+  for (const modelId of fallbackIds) {
+    try {
+      chain.push(await resolveModelForUser(userId, modelId, capability, primary.keySource));
+    } catch {
+      // Not servable right now
+    }
+  }
+  return chain;
+}
+
+function shouldFallBack(error: any, signal: AbortSignal | undefined, remaining: number): boolean {
+  return remaining > 0 && !signal?.aborted && isRetryableProviderError(error);
+}
+
+// Try each model in turn, moving on only for timeouts, rate limits and 5xx errors
+export async function completeWithFallback(
+  chain: ResolvedModel[],
+  buildRequest: (resolved: ResolvedModel) => CompletionRequest,
+  signal?: AbortSignal
+): Promise<{ resolved: ResolvedModel; request: CompletionRequest; result: CompletionResult; attempts: FallbackAttempt[] }> {
+  const attempts: FallbackAttempt[] = [];
+
+  for (const [index, resolved] of chain.entries()) {
+    const request = buildRequest(resolved);
+    try {
+      const result = await resolved.provider.complete(request, signal);
+      return { resolved, request, result, attempts };
+    } catch (error: any) {
+      if (!shouldFallBack(error, signal, chain.length - index - 1)) {
+        throw error;
+      }
+      console.warn(`Model ${resolved.model.id} failed (${error.message}); falling back to ${chain[index + 1].model.id}`);
+      attempts.push({ model: resolved.model.id, error: error.message });
+    }
+  }
+
+  throw new Error('No models to try');
+}
+
+// Streams can only switch models before the first chunk arrives
+export async function streamWithFallback(
+  chain: ResolvedModel[],
+  buildRequest: (resolved: ResolvedModel) => CompletionRequest,
+  signal?: AbortSignal
+): Promise<{ resolved: ResolvedModel; request: CompletionRequest; stream: AsyncGenerator<StreamChunk>; attempts: FallbackAttempt[] }> {
+  const attempts: FallbackAttempt[] = [];
+
+  for (const [index, resolved] of chain.entries()) {
+    const request = buildRequest(resolved);
+    const stream = resolved.provider.stream(request, signal);
+    try {
+      const first = await stream.next();
+      return { resolved, request, stream: prependChunk(first, stream), attempts };
+    } catch (error: any) {
+      if (!shouldFallBack(error, signal, chain.length - index - 1)) {
+        throw error;
+      }
+      console.warn(`Model ${resolved.model.id} failed (${error.message}); falling back to ${chain[index + 1].model.id}`);
+      attempts.push({ model: resolved.model.id, error: error.message });
+    }
+  }
+
+  throw new Error('No models to try');
+}
+
+async function* prependChunk(first: IteratorResult<StreamChunk>, rest: AsyncGenerator<StreamChunk>): AsyncGenerator<StreamChunk> {
+  if (first.done) {
+    return;
+  }
+  yield first.value;
+  yield* rest;
+}
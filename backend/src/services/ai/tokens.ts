@@ -0,0 +1,34 @@
+import { TokenUsage } from './types';
+
+// Rough token estimate (~4 characters per token) for budgeting before a provider reports real usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Rough input cost of one image; providers charge by resolution, up to about this much
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens
+  };
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens;
+}
+
+// The token columns of an ai_generations or conversation_messages row
+export function usageFromRow(row: any): TokenUsage {
+  return {
+    inputTokens: row.input_tokens || 0,
+    outputTokens: row.output_tokens || 0,
+    cachedTokens: row.cached_tokens || 0
+  };
+}
@@ -0,0 +1,86 @@
+export type ModelCapability = 'code' | 'chat' | 'streaming' | 'vision';
+
+// USD per 1k tokens; the defaults for the model_pricing table
+export interface ModelPricing {
+  input: number;
+  output: number;
+  // Input tokens served from the provider's prompt cache
+  cachedInput: number;
+}
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  pricing: ModelPricing;
+  maxTokens: number;
+  capabilities: ModelCapability[];
+}
+
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// Base64-encoded image sent alongside a message to models with the 'vision' capability
+export interface ImageInput {
+  mediaType: ImageMediaType;
+  data: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  images?: ImageInput[];
+}
+
+export interface CompletionRequest {
+  model: string;
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+  // Hints for providers that script their output
+  task?: 'generate' | 'edit' | 'repair';
+  techStack?: string;
+}
+
+// `inputTokens` includes the cached ones
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  // Total of input and output tokens
+  tokensUsed: number;
+  usage: TokenUsage;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  tokensUsed: number;
+}
+
+export interface ModerationClassification {
+  flagged: boolean;
+  categories: string[];
+}
+
+export type StreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'usage'; tokensUsed: number; usage: TokenUsage };
+
+export interface AIProvider {
+  id: string;
+  name: string;
+  models: ModelDefinition[];
+  isAvailable(): boolean;
+  // A copy of the provider bound to a user's own API key, for providers that accept one
+  withApiKey?(apiKey: string): AIProvider;
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResult>;
+  stream(request: CompletionRequest, signal?: AbortSignal): AsyncGenerator<StreamChunk>;
+  // Text embeddings for retrieval, for providers that offer them
+  embeddingModel?: string;
+  embed?(texts: string[], signal?: AbortSignal): Promise<EmbeddingResult>;
+  // Content classification for the moderation pipeline, for providers that offer it
+  moderate?(text: string, signal?: AbortSignal): Promise<ModerationClassification>;
+}
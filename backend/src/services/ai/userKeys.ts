@@ -0,0 +1,83 @@
+import { getDatabase, QueryGet } from '../../database/init';
+import { promisify } from 'util';
+import { createError } from '../../middleware/errorHandler';
+import { decryptSecret } from '../secrets';
+import { findModel, getProvider, listProviders, resolveModel } from './registry';
+import { AIProvider, ModelCapability, ModelDefinition } from './types';
+
+// 'user' means the request runs on the user's own API key and is not charged credits
+export type KeySource = 'platform' | 'user';
+
+export interface ResolvedModel {
+  provider: AIProvider;
+  model: ModelDefinition;
+  keySource: KeySource;
+}
+
+// Providers that accept a user's own key
+export function listKeyProviders(): AIProvider[] {
+  return listProviders().filter(provider => typeof provider.withApiKey === 'function');
+}
+
+export async function getUserApiKey(userId: string, providerId: string): Promise<string | undefined> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const row = await get(
+    'SELECT encrypted_key FROM user_api_keys WHERE user_id = ? AND provider = ?',
+    [userId, providerId]
+  );
+
+  return row ? decryptSecret(row.encrypted_key) : undefined;
+}
+
+// Prefer the user's own key for the model's provider, falling back to the platform key.
+// Pass `keySource` to require one of them (e.g. when a queued job runs later).
+export async function resolveModelForUser(
+  userId: string,
+  modelId: string,
+  capability?: ModelCapability,
+  keySource?: KeySource
+): Promise<ResolvedModel> {
+  const found = findModel(modelId);
+
+  if (found?.provider.withApiKey && keySource !== 'platform') {
+    const apiKey = await getUserApiKey(userId, found.provider.id);
+    if (apiKey) {
+      // Validates the capability without requiring the platform key
+      const { model } = resolveModel(modelId, capability, { skipAvailability: true });
+      return { provider: found.provider.withApiKey(apiKey), model, keySource: 'user' };
+    }
+  }
+
+  if (keySource === 'user') {
+    throw createError(`No API key saved for ${found?.provider.name || modelId}`, 400);
+  }
+
+  return { ...resolveModel(modelId, capability), keySource: 'platform' };
+}
+
+// Make the smallest possible request with the key to check that the provider accepts it
+export async function validateApiKey(providerId: string, apiKey: string): Promise<void> {
+  const provider = getProvider(providerId);
+  if (!provider?.withApiKey) {
+    throw createError(`Provider ${providerId} does not accept user API keys`, 400);
+  }
+
+  const cheapest = [...provider.models].sort((a, b) => a.pricing.output - b.pricing.output)[0];
+
+  try {
+    await provider.withApiKey(apiKey).complete({
+      model: cheapest.id,
+      system: 'Reply with OK.',
+      messages: [{ role: 'user', content: 'ping' }],
+      maxTokens: 1,
+      temperature: 0
+    });
+  } catch (error: any) {
+    if (error.status === 401 || error.status === 403) {
+      throw createError(`${provider.name} rejected the API key`, 400);
+    }
+    throw createError(`Could not verify the API key with ${provider.name}: ${error.message}`, 502);
+  }
+}
\ No newline at end of file
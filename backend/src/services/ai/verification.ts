@@ -0,0 +1,368 @@
+import * as ts from 'typescript';
+import { posix } from 'path';
+
+// Static checks for generated files: TypeScript/JavaScript (including Vue <script> blocks)
+// are parsed and type-checked in memory, relative imports must point at generated files,
+// and CSS and JSON files must parse. Nothing is executed and no dependencies are installed.
+
+export type DiagnosticSeverity = 'error' | 'warning';
+export type DiagnosticSource = 'typescript' | 'lint' | 'imports' | 'css' | 'json';
+
+export interface CodeDiagnostic {
+  path: string;
+  line: number;
+  column: number;
+  severity: DiagnosticSeverity;
+  source: DiagnosticSource;
+  code?: string;
+  message: string;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  checkedFiles: number;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: CodeDiagnostic[];
+}
+
+interface SourceFileInput {
+  path: string;
+  content: string;
+}
+
+interface ScriptSource {
+  path: string;
+  virtualPath: string;
+  content: string;
+  // Lines before the script content in the original file (for Vue blocks)
+  lineOffset: number;
+  // Vue templates use script bindings the checker can't see, so unused-name warnings are skipped
+  lint: boolean;
+}
+
+// Stored and fed back to the model; the rest are only counted
+const MAX_DIAGNOSTICS = 100;
+
+const ROOT = '/project/';
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const CSS_EXTENSIONS = ['.css', '.scss'];
+const IMPORT_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.vue', '.json', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+// Packages aren't installed, so every bare import resolves to `any` and a few ambient
+// globals that generated frontend code relies on are declared
+const AMBIENT_PATH = `${ROOT}__ambient__.d.ts`;
+const AMBIENT_DECLARATIONS = `
+declare module '*';
+declare const process: any;
+declare const require: any;
+declare const module: any;
+declare const __dirname: string;
+interface ImportMeta { env: Record<string, any>; hot?: any; glob?: any; }
+declare namespace JSX { interface IntrinsicElements { [name: string]: any; } }
+`;
+
+// Checker complaints caused by packages being typed as `any` rather than by the code
+const IGNORED_CODES = new Set([
+  2347 // Untyped function calls may not accept type arguments (e.g. useState<string>())
+]);
+
+// Reported as lint warnings: they never fail verification
+const LINT_CODES = new Set([6133, 6138, 6192, 6196, 6198, 7027, 7028]);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  types: [],
+  jsx: ts.JsxEmit.Preserve,
+  allowJs: true,
+  checkJs: false,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  experimentalDecorators: true,
+  skipLibCheck: true,
+  noEmit: true,
+  strict: false,
+  noUnusedLocals: true,
+  allowUnreachableCode: false
+};
+
+// Parsing lib.dom.d.ts is the slowest part of a check, so lib files are shared between runs
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+export function verifyFiles(files: SourceFileInput[]): VerificationResult {
+  const diagnostics: CodeDiagnostic[] = [];
+  const paths = new Set(files.map(file => file.path));
+  const scripts: ScriptSource[] = [];
+  let checkedFiles = 0;
+
+  for (const file of files) {
+    const extension = posix.extname(file.path).toLowerCase();
+
+    if (SCRIPT_EXTENSIONS.includes(extension)) {
+      scripts.push({ path: file.path, virtualPath: ROOT + file.path, content: file.content, lineOffset: 0, lint: true });
+    } else if (extension === '.vue') {
+      const script = extractVueScript(file);
+      if (script) {
+        scripts.push(script);
+      }
+    } else if (CSS_EXTENSIONS.includes(extension)) {
+      diagnostics.push(...checkCss(file, extension === '.scss'));
+    } else if (extension === '.json') {
+      diagnostics.push(...checkJson(file));
+    } else {
+      continue;
+    }
+
+    checkedFiles++;
+  }
+
+  for (const script of scripts) {
+    diagnostics.push(...checkRelativeImports(script, paths));
+  }
+  diagnostics.push(...checkScripts(scripts));
+
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const sorted = diagnostics.sort((a, b) =>
+    severityRank(a) - severityRank(b) || a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column
+  );
+
+  return {
+    passed: errorCount === 0,
+    checkedFiles,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics: sorted.slice(0, MAX_DIAGNOSTICS)
+  };
+}
+
+// One diagnostic per line, in the `path:line:column - severity CODE: message` format compilers use
+export function formatDiagnostics(diagnostics: CodeDiagnostic[]): string {
+  return diagnostics
+    .map(diagnostic => {
+      const code = diagnostic.code ? ` ${diagnostic.code}` : '';
+      return `${diagnostic.path}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.severity}${code}: ${diagnostic.message}`;
+    })
+    .join('\n');
+}
+
+function severityRank(diagnostic: CodeDiagnostic): number {
+  return diagnostic.severity === 'error' ? 0 : 1;
+}
+
+function checkScripts(scripts: ScriptSource[]): CodeDiagnostic[] {
+  if (scripts.length === 0) {
+    return [];
+  }
+
+  const sources = new Map<string, string>(scripts.map(script => [script.virtualPath, script.content]));
+  sources.set(AMBIENT_PATH, AMBIENT_DECLARATIONS);
+  const libDirectory = posix.dirname(ts.getDefaultLibFilePath(COMPILER_OPTIONS));
+
+  const host: ts.CompilerHost = {
+    getSourceFile(fileName, languageVersion) {
+      const source = sources.get(fileName);
+      if (source !== undefined) {
+        return ts.createSourceFile(fileName, source, languageVersion, true, getScriptKind(fileName));
+      }
+      if (posix.dirname(fileName) !== libDirectory) {
+        return undefined;
+      }
+
+      let libFile = libSourceFiles.get(fileName);
+      if (!libFile) {
+        const text = ts.sys.readFile(fileName);
+        if (text === undefined) {
+          return undefined;
+        }
+        libFile = ts.createSourceFile(fileName, text, languageVersion);
+        libSourceFiles.set(fileName, libFile);
+      }
+      return libFile;
+    },
+    getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+    writeFile: () => undefined,
+    getCurrentDirectory: () => ROOT,
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => sources.has(fileName) || (posix.dirname(fileName) === libDirectory && ts.sys.fileExists(fileName)),
+    readFile: fileName => sources.get(fileName) ?? (posix.dirname(fileName) === libDirectory ? ts.sys.readFile(fileName) : undefined)
+  };
+
+  const program = ts.createProgram(Array.from(sources.keys()), COMPILER_OPTIONS, host);
+  const diagnostics: CodeDiagnostic[] = [];
+
+  for (const script of scripts) {
+    const sourceFile = program.getSourceFile(script.virtualPath);
+    if (!sourceFile) {
+      continue;
+    }
+
+    // Type errors in a file that doesn't parse are mostly noise
+    const syntactic = program.getSyntacticDiagnostics(sourceFile);
+    const found = syntactic.length > 0 ? syntactic : program.getSemanticDiagnostics(sourceFile);
+
+    for (const diagnostic of found) {
+      const isLint = LINT_CODES.has(diagnostic.code);
+      if (IGNORED_CODES.has(diagnostic.code) || (isLint && !script.lint)) {
+        continue;
+      }
+
+      const position = sourceFile.getLineAndCharacterOfPosition(diagnostic.start || 0);
+      diagnostics.push({
+        path: script.path,
+        line: position.line + 1 + script.lineOffset,
+        column: position.character + 1,
+        severity: isLint ? 'warning' : 'error',
+        source: isLint ? 'lint' : 'typescript',
+        code: `TS${diagnostic.code}`,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (posix.extname(fileName)) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+// Check the script block of a single-file component as its own module. The virtual name
+// must not be one that imports of the component (`./App.vue`) would resolve to.
+function extractVueScript(file: SourceFileInput): ScriptSource | null {
+  const match = file.content.match(/<script\b([^>]*)>([\s\S]*?)<\/script>/);
+  if (!match) {
+    return null;
+  }
+
+  const isTypeScript = /lang\s*=\s*["']ts["']/.test(match[1]);
+  const contentStart = match.index! + match[0].indexOf('>') + 1;
+
+  return {
+    path: file.path,
+    virtualPath: `${ROOT}${file.path}.script.${isTypeScript ? 'ts' : 'js'}`,
+    content: match[2],
+    lineOffset: file.content.slice(0, contentStart).split('\n').length - 1,
+    lint: false
+  };
+}
+
+function checkRelativeImports(script: ScriptSource, paths: Set<string>): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+  const { importedFiles } = ts.preProcessFile(script.content, true, true);
+  const directory = posix.dirname(script.path);
+
+  for (const imported of importedFiles) {
+    const specifier = imported.fileName;
+    if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+      continue;
+    }
+
+    // Imports may name the compiled file (`./util.js` for `util.ts`)
+    const target = posix.normalize(posix.join(directory, specifier));
+    const bases = [target, target.replace(/\.(js|jsx|mjs)$/, '')];
+    const found = bases.some(base => IMPORT_EXTENSIONS.some(extension => paths.has(base + extension)));
+
+    if (!found) {
+      const position = positionAt(script.content, imported.pos);
+      diagnostics.push({
+        path: script.path,
+        line: position.line + script.lineOffset,
+        column: position.column,
+        severity: 'error',
+        source: 'imports',
+        message: `Cannot resolve import '${specifier}': no generated file matches`
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+// A structural check (comments, strings, balanced braces); it doesn't validate properties
+function checkCss(file: SourceFileInput, isScss: boolean): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+  const openBraces: number[] = [];
+  const text = file.content;
+  const error = (offset: number, message: string) => {
+    const position = positionAt(text, offset);
+    diagnostics.push({ path: file.path, ...position, severity: 'error', source: 'css', message });
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '/' && text[index + 1] === '*') {
+      const end = text.indexOf('*/', index + 2);
+      if (end === -1) {
+        error(index, 'Unclosed comment');
+        break;
+      }
+      index = end + 2;
+      continue;
+    }
+
+    if (isScss && char === '/' && text[index + 1] === '/') {
+      const end = text.indexOf('\n', index);
+      index = end === -1 ? text.length : end;
+      continue;
+    }
+
+    if (char === '"' || char === '\'') {
+      let end = index + 1;
+      while (end < text.length && text[end] !== char && text[end] !== '\n') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      if (text[end] !== char) {
+        error(index, 'Unclosed string');
+      }
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      openBraces.push(index);
+    } else if (char === '}') {
+      if (openBraces.length === 0) {
+        error(index, "Unexpected '}'");
+      } else {
+        openBraces.pop();
+      }
+    }
+    index++;
+  }
+
+  for (const offset of openBraces) {
+    error(offset, "Unclosed '{'");
+  }
+
+  return diagnostics;
+}
+
+function checkJson(file: SourceFileInput): CodeDiagnostic[] {
+  try {
+    JSON.parse(file.content);
+    return [];
+  } catch (error: any) {
+    const offset = error.message.match(/position (\d+)/);
+    const position = offset ? positionAt(file.content, Number(offset[1])) : { line: 1, column: 1 };
+    return [{ path: file.path, ...position, severity: 'error', source: 'json', message: error.message }];
+  }
+}
+
+function positionAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
@@ -0,0 +1,312 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { withTransaction } from '../database/transaction';
+import { promisify } from 'util';
+import { createError } from '../middleware/errorHandler';
+import { getBlobStore, hashBlob } from './blobStore';
+import { getEntitlements } from './entitlements';
+import { normalizeFilePath } from './projectFiles';
+
+// Binary files uploaded into a project (images, fonts, media). Text files live in
+// project_files; assets can't be stored there, so they get their own table and
+// are not branched or versioned: one copy per path is shared by every branch and
+// included in every download. The bytes are kept once per SHA-256 in the blob store.
+
+export const MAX_ASSETS_PER_UPLOAD = 10;
+
+// Uploads without a path go here, which is where Vite and most bundlers serve static files from
+export const DEFAULT_ASSET_DIRECTORY = 'public';
+
+const ASSET_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  pdf: 'application/pdf'
+};
+
+const TEXT_MIME_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  scss: 'text/x-scss',
+  sass: 'text/x-sass',
+  less: 'text/x-less',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  cjs: 'text/javascript',
+  jsx: 'text/jsx',
+  ts: 'text/typescript',
+  tsx: 'text/tsx',
+  vue: 'text/x-vue',
+  svelte: 'text/x-svelte',
+  json: 'application/json',
+  md: 'text/markdown',
+  xml: 'application/xml',
+  yml: 'text/yaml',
+  yaml: 'text/yaml'
+};
+
+export interface ProjectAsset {
+  id: string;
+  project_id: string;
+  file_path: string;
+  blob_hash: string;
+  mime_type: string;
+  size: number;
+  original_name: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssetUpload {
+  path: string;
+  data: Buffer;
+  originalName?: string;
+}
+
+function getExtension(filePath: string): string {
+  const fileName = filePath.split('/').pop() || filePath;
+  return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+}
+
+// MIME type of any project file; unknown text files are text/plain
+export function getMimeType(filePath: string): string {
+  const extension = getExtension(filePath);
+  return ASSET_MIME_TYPES[extension] || TEXT_MIME_TYPES[extension] || 'text/plain';
+}
+
+export function isAssetPath(filePath: string): boolean {
+  return getExtension(filePath) in ASSET_MIME_TYPES;
+}
+
+export async function loadProjectAssets(projectId: string): Promise<ProjectAsset[]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  return all('SELECT * FROM project_assets WHERE project_id = ? ORDER BY file_path', [projectId]) as Promise<ProjectAsset[]>;
+}
+
+export async function getProjectAsset(projectId: string, filePath: string): Promise<ProjectAsset | undefined> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  return get('SELECT * FROM project_assets WHERE project_id = ? AND file_path = ?', [projectId, filePath]) as Promise<ProjectAsset | undefined>;
+}
+
+export async function readAssetContent(asset: ProjectAsset): Promise<Buffer> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const blob = await get('SELECT store FROM asset_blobs WHERE hash = ?', [asset.blob_hash]);
+  if (!blob) {
+    throw createError(`Content of ${asset.file_path} is missing`, 500);
+  }
+  return getBlobStore(blob.store).get(asset.blob_hash);
+}
+
+export interface PreparedAsset extends AssetUpload {
+  hash: string;
+}
+
+// Normalize and hash uploads, checking each against the plan's per-file size
+export function prepareAssets(uploads: AssetUpload[], plan: string): PreparedAsset[] {
+  const { maxAssetSize } = getEntitlements(plan);
+  const paths = new Set<string>();
+
+  return uploads.map(upload => {
+    const path = normalizeFilePath(upload.path);
+    if (!isAssetPath(path)) {
+      throw createError(`Unsupported asset type: ${path}`, 400);
+    }
+    if (paths.has(path)) {
+      throw createError(`Duplicate file path: ${path}`, 400);
+    }
+    if (upload.data.length > maxAssetSize) {
+      throw createError(`${path} is larger than the ${maxAssetSize / (1024 * 1024)} MB asset limit of the ${plan} plan`, 413);
+    }
+    paths.add(path);
+    return { ...upload, path, hash: hashBlob(upload.data) };
+  });
+}
+
+// Write prepared assets at their paths, replacing assets already there, within
+// the project's storage allowance. Call inside a transaction.
+export async function writeAssets(
+  projectId: string,
+  files: PreparedAsset[],
+  userId: string,
+  plan: string
+): Promise<{ path: string; created: boolean }[]> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  if (files.length === 0) {
+    return [];
+  }
+
+  const { assetStorage } = getEntitlements(plan);
+  const existing = await all(
+    `SELECT file_path, blob_hash, size FROM project_assets WHERE project_id = ? AND file_path IN (${files.map(() => '?').join(', ')})`,
+    [projectId, ...files.map(file => file.path)]
+  ) as { file_path: string; blob_hash: string; size: number }[];
+
+  if (assetStorage !== null) {
+    const usage = await get('SELECT COALESCE(SUM(size), 0) as size FROM project_assets WHERE project_id = ?', [projectId]);
+    const replaced = existing.reduce((total, asset) => total + asset.size, 0);
+    const added = files.reduce((total, file) => total + file.data.length, 0);
+    if (usage.size - replaced + added > assetStorage) {
+      throw createError(`Project asset storage is limited to ${assetStorage / (1024 * 1024)} MB on the ${plan} plan`, 413);
+    }
+  }
+
+  const store = getBlobStore();
+  const replacedHashes: string[] = [];
+  const stored: { path: string; created: boolean }[] = [];
+  for (const file of files) {
+    // Identical content is stored once, however many paths or projects use it
+    if (!(await get('SELECT hash FROM asset_blobs WHERE hash = ?', [file.hash]))) {
+      await store.put(file.hash, file.data);
+      await run('INSERT INTO asset_blobs (hash, store, size) VALUES (?, ?, ?)', [file.hash, store.id, file.data.length]);
+    }
+
+    const previous = existing.find(asset => asset.file_path === file.path);
+    if (previous && previous.blob_hash !== file.hash) {
+      replacedHashes.push(previous.blob_hash);
+    }
+
+    await run(
+      `INSERT INTO project_assets (id, project_id, file_path, blob_hash, mime_type, size, original_name, uploaded_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, file_path) DO UPDATE SET
+         blob_hash = excluded.blob_hash,
+         mime_type = excluded.mime_type,
+         size = excluded.size,
+         original_name = excluded.original_name,
+         uploaded_by = excluded.uploaded_by,
+         updated_at = CURRENT_TIMESTAMP`,
+      [uuidv4(), projectId, file.path, file.hash, getMimeType(file.path), file.data.length, file.originalName || null, userId]
+    );
+    stored.push({ path: file.path, created: !previous });
+  }
+
+  await releaseBlobs(replacedHashes);
+  return stored;
+}
+
+// Upload assets into an existing project
+export async function storeAssets(
+  projectId: string,
+  uploads: AssetUpload[],
+  userId: string,
+  plan: string
+): Promise<{ asset: ProjectAsset; created: boolean }[]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const files = prepareAssets(uploads, plan);
+
+  const textFiles = await all(
+    `SELECT DISTINCT file_path FROM project_files WHERE project_id = ? AND file_path IN (${files.map(() => '?').join(', ')})`,
+    [projectId, ...files.map(file => file.path)]
+  );
+  if (textFiles.length > 0) {
+    throw createError(`${textFiles[0].file_path} is a text file of this project`, 409);
+  }
+
+  const results = await withTransaction(() => writeAssets(projectId, files, userId, plan));
+
+  const assets = await loadProjectAssets(projectId);
+  return results.map(result => ({ asset: assets.find(asset => asset.file_path === result.path)!, created: result.created }));
+}
+
+// Delete the asset at path, or every asset under it when it names a folder
+export async function deleteAssets(projectId: string, filePath: string): Promise<string[]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const path = normalizeFilePath(filePath);
+
+  return withTransaction(async () => {
+    const assets = await all(
+      `SELECT file_path, blob_hash FROM project_assets
+       WHERE project_id = ? AND (file_path = ? OR substr(file_path, 1, ?) = ?)`,
+      [projectId, path, path.length + 1, `${path}/`]
+    ) as { file_path: string; blob_hash: string }[];
+    if (assets.length === 0) {
+      throw createError(`Asset not found: ${path}`, 404);
+    }
+
+    for (const asset of assets) {
+      await run('DELETE FROM project_assets WHERE project_id = ? AND file_path = ?', [projectId, asset.file_path]);
+    }
+    await releaseBlobs(assets.map(asset => asset.blob_hash));
+
+    return assets.map(asset => asset.file_path);
+  });
+}
+
+// Delete all of a project's assets along with the project. Call inside its transaction.
+export async function deleteProjectAssets(projectId: string): Promise<void> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const assets = await all('SELECT blob_hash FROM project_assets WHERE project_id = ?', [projectId]) as { blob_hash: string }[];
+  await run('DELETE FROM project_assets WHERE project_id = ?', [projectId]);
+  await releaseBlobs(assets.map(asset => asset.blob_hash));
+}
+
+// Remove blobs no asset refers to any more. Runs last in the transaction that
+// dropped the references, so a concurrent upload can't reuse a blob being deleted.
+async function releaseBlobs(hashes: string[]): Promise<void> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  for (const hash of new Set(hashes)) {
+    if (await get('SELECT id FROM project_assets WHERE blob_hash = ? LIMIT 1', [hash])) {
+      continue;
+    }
+    const blob = await get('SELECT store FROM asset_blobs WHERE hash = ?', [hash]);
+    if (blob) {
+      await run('DELETE FROM asset_blobs WHERE hash = ?', [hash]);
+      await getBlobStore(blob.store).delete(hash);
+    }
+  }
+}
+
+export function formatAsset(asset: ProjectAsset) {
+  return {
+    id: asset.id,
+    path: asset.file_path,
+    type: 'asset',
+    mimeType: asset.mime_type,
+    size: asset.size,
+    hash: asset.blob_hash,
+    originalName: asset.original_name,
+    uploadedBy: asset.uploaded_by,
+    createdAt: asset.created_at,
+    updatedAt: asset.updated_at
+  };
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { createError } from '../middleware/errorHandler';
+
+// Content-addressed storage for binary assets. A blob is written once under the
+// SHA-256 of its bytes and never changed. ASSET_STORE picks the store new blobs
+// go to; asset_blobs records the store of each blob, so blobs written before a
+// switch stay readable.
+
+export interface BlobStore {
+  id: string;
+  put(hash: string, data: Buffer): Promise<void>;
+  get(hash: string): Promise<Buffer>;
+  delete(hash: string): Promise<void>;
+}
+
+export const ASSET_STORAGE_DIR = process.env.ASSET_STORAGE_DIR || path.join(process.cwd(), 'assets');
+
+// Two-character subdirectories keep any one directory from growing too large
+function blobPath(hash: string): string {
+  return path.join(ASSET_STORAGE_DIR, hash.slice(0, 2), hash);
+}
+
+export const diskBlobStore: BlobStore = {
+  id: 'disk',
+
+  async put(hash, data) {
+    const target = blobPath(hash);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    // Rename into place so a failed write never leaves a partial blob under its hash
+    const temporary = `${target}.${uuidv4()}.tmp`;
+    await fs.promises.writeFile(temporary, data);
+    await fs.promises.rename(temporary, target);
+  },
+
+  get(hash) {
+    return fs.promises.readFile(blobPath(hash));
+  },
+
+  async delete(hash) {
+    await fs.promises.unlink(blobPath(hash)).catch(() => undefined);
+  }
+};
+
+const stores = new Map<string, BlobStore>();
+
+export function registerBlobStore(store: BlobStore): void {
+  stores.set(store.id, store);
+}
+
+registerBlobStore(diskBlobStore);
+
+export function getBlobStore(storeId: string = process.env.ASSET_STORE || diskBlobStore.id): BlobStore {
+  const store = stores.get(storeId);
+  if (!store) {
+    throw createError(`Blob store ${storeId} is not registered`, 500);
+  }
+  return store;
+}
+
+export function hashBlob(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,126 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { withTransaction } from '../database/transaction';
+import { promisify } from 'util';
+import { createError } from '../middleware/errorHandler';
+import { createSnapshot } from './snapshots';
+
+// Branches keep their own copy of the project's files (project_files.branch), so
+// a risky change can be tried without touching main. Reads and writes that don't
+// name a branch use the project's current branch. A branch remembers the snapshot
+// its last merge was based on, which is the base of the next three-way merge.
+
+export const MAIN_BRANCH = 'main';
+
+export const BRANCH_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,49}$/;
+
+export async function getBranch(projectId: string, name: string): Promise<any> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  return get('SELECT * FROM project_branches WHERE project_id = ? AND name = ?', [projectId, name]);
+}
+
+// The requested branch, or the project's current one; unknown branches are a 404
+export async function resolveBranch(project: { id: string; current_branch?: string | null }, requested?: unknown): Promise<string> {
+  if (typeof requested !== 'string' || !requested) {
+    return project.current_branch || MAIN_BRANCH;
+  }
+
+  if (requested !== MAIN_BRANCH && !(await getBranch(project.id, requested))) {
+    throw createError(`Branch ${requested} not found`, 404);
+  }
+  return requested;
+}
+
+export async function listBranches(projectId: string): Promise<any[]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const branches = await all(
+    'SELECT * FROM project_branches WHERE project_id = ? ORDER BY created_at',
+    [projectId]
+  ) as any[];
+  const stats = await all(
+    `SELECT b.branch,
+            (SELECT COUNT(*) FROM project_files f WHERE f.project_id = ? AND f.branch = b.branch) as file_count,
+            (SELECT MAX(version) FROM project_snapshots s WHERE s.project_id = ? AND s.branch = b.branch) as head_version
+     FROM (SELECT ? as branch UNION SELECT name FROM project_branches WHERE project_id = ?) b`,
+    [projectId, projectId, MAIN_BRANCH, projectId]
+  );
+  const statsByBranch = new Map(stats.map((row: any) => [row.branch, row]));
+
+  return [{ name: MAIN_BRANCH }, ...branches].map(branch => ({
+    ...branch,
+    file_count: statsByBranch.get(branch.name)?.file_count || 0,
+    head_version: statsByBranch.get(branch.name)?.head_version ?? null
+  }));
+}
+
+// Copy a tree into a new branch and snapshot it as the base of its first merge
+export async function createBranch(
+  projectId: string,
+  name: string,
+  files: { path: string; content: string; type?: string }[],
+  createdBy: string
+): Promise<any> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  if (name === MAIN_BRANCH || await getBranch(projectId, name)) {
+    throw createError(`Branch ${name} already exists`, 409);
+  }
+
+  return withTransaction(async () => {
+    for (const file of files) {
+      await run(
+        `INSERT INTO project_files (id, project_id, branch, file_path, file_content, file_type, size)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), projectId, name, file.path, file.content, file.type || 'text', file.content.length]
+      );
+    }
+
+    const snapshot = await createSnapshot(projectId, { source: 'branch', branch: name, createdBy });
+    await run(
+      `INSERT INTO project_branches (id, project_id, name, merge_base_snapshot_id, created_by)
+       VALUES (?, ?, ?, ?, ?)`,
+      [uuidv4(), projectId, name, snapshot.id, createdBy]
+    );
+
+    const branch = await getBranch(projectId, name);
+    return { ...branch, file_count: snapshot.file_count, head_version: snapshot.version };
+  });
+}
+
+// After a merge, main contains the merged snapshot of the branch, so it is the next base
+export async function recordMerge(projectId: string, name: string, mergedSnapshotId: string): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    'UPDATE project_branches SET merge_base_snapshot_id = ?, merged_at = CURRENT_TIMESTAMP WHERE project_id = ? AND name = ?',
+    [mergedSnapshotId, projectId, name]
+  );
+}
+
+export async function deleteBranch(projectId: string, name: string): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await withTransaction(async () => {
+    await run('DELETE FROM project_files WHERE project_id = ? AND branch = ?', [projectId, name]);
+    await run('DELETE FROM project_branches WHERE project_id = ? AND name = ?', [projectId, name]);
+  });
+}
+
+export function formatBranch(branch: any, currentBranch: string) {
+  return {
+    name: branch.name,
+    current: branch.name === currentBranch,
+    fileCount: branch.file_count,
+    headVersion: branch.head_version,
+    createdBy: branch.created_by ?? null,
+    createdAt: branch.created_at ?? null,
+    mergedAt: branch.merged_at ?? null
+  };
+}
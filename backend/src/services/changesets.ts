@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryAll, QueryRun } from '../database/init';
+import { withTransaction } from '../database/transaction';
+import { promisify } from 'util';
+import { createSnapshot, ensureBaselineSnapshot, NewSnapshot } from './snapshots';
+
+export type ApplyMode = 'merge' | 'replace';
+
+export interface IncomingFile {
+  path: string;
+  content: string;
+  type?: string;
+}
+
+// What produced the change; recorded on the resulting snapshot
+export interface ApplyOptions extends NewSnapshot {
+  // Replaces projects.code_content when set (null clears it)
+  codeContent?: string | null;
+}
+
+export interface Changeset {
+  added: IncomingFile[];
+  modified: IncomingFile[];
+  deleted: string[];
+  unchanged: string[];
+}
+
+export async function loadProjectFiles(projectId: string, branch: string): Promise<Map<string, string>> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const rows = await all(
+    'SELECT file_path, file_content FROM project_files WHERE project_id = ? AND branch = ?',
+    [projectId, branch]
+  );
+
+  return new Map(rows.map((row: any) => [row.file_path, row.file_content ?? '']));
+}
+
+// Diff incoming files against the current tree. In replace mode, files missing
+// from the incoming set are deleted; in merge mode they are left alone.
+export function computeChangeset(
+  current: Map<string, string>,
+  incoming: IncomingFile[],
+  mode: ApplyMode = 'merge'
+): Changeset {
+  const changeset: Changeset = { added: [], modified: [], deleted: [], unchanged: [] };
+  const incomingPaths = new Set<string>();
+
+  for (const file of incoming) {
+    incomingPaths.add(file.path);
+
+    if (!current.has(file.path)) {
+      changeset.added.push(file);
+    } else if (current.get(file.path) !== file.content) {
+      changeset.modified.push(file);
+    } else {
+      changeset.unchanged.push(file.path);
+    }
+  }
+
+  if (mode === 'replace') {
+    for (const path of current.keys()) {
+      if (!incomingPaths.has(path)) {
+        changeset.deleted.push(path);
+      }
+    }
+  }
+
+  return changeset;
+}
+
+export function summarizeChangeset(changeset: Changeset) {
+  return {
+    added: changeset.added.map(file => file.path),
+    modified: changeset.modified.map(file => file.path),
+    deleted: changeset.deleted,
+    unchanged: changeset.unchanged
+  };
+}
+
+// Write a changeset into project_files atomically, recording a revision per changed
+// file and a snapshot of the resulting tree
+export async function applyChangeset(
+  projectId: string,
+  changeset: Changeset,
+  options: ApplyOptions
+): Promise<any> {
+  return withTransaction(() => writeChangeset(projectId, changeset, options));
+}
+
+// The writes of applyChangeset, for callers already inside withTransaction that
+// computed the changeset from files read in the same transaction
+export async function writeChangeset(
+  projectId: string,
+  changeset: Changeset,
+  options: ApplyOptions
+): Promise<any> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+  const generationId = options.generationId || null;
+  const { branch } = options;
+
+  await ensureBaselineSnapshot(projectId, branch, options.createdBy);
+
+  for (const file of changeset.added) {
+    await run(
+      `INSERT INTO project_files (id, project_id, branch, file_path, file_content, file_type, size, generation_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), projectId, branch, file.path, file.content, file.type || 'text', file.content.length, generationId]
+    );
+    await recordRevision(projectId, branch, file.path, generationId, 'added', file.content);
+  }
+
+  for (const file of changeset.modified) {
+    await run(
+      `UPDATE project_files
+       SET file_content = ?, file_type = ?, size = ?, generation_id = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE project_id = ? AND branch = ? AND file_path = ?`,
+      [file.content, file.type || 'text', file.content.length, generationId, projectId, branch, file.path]
+    );
+    await recordRevision(projectId, branch, file.path, generationId, 'modified', file.content);
+  }
+
+  for (const path of changeset.deleted) {
+    await run(
+      'DELETE FROM project_files WHERE project_id = ? AND branch = ? AND file_path = ?',
+      [projectId, branch, path]
+    );
+    await recordRevision(projectId, branch, path, generationId, 'deleted', null);
+  }
+
+  if (options.codeContent !== undefined) {
+    await run(
+      'UPDATE projects SET code_content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [options.codeContent, projectId]
+    );
+  } else {
+    await run(
+      'UPDATE projects SET updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [projectId]
+    );
+  }
+
+  if (generationId) {
+    await run(
+      'UPDATE ai_generations SET project_id = ?, applied_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [projectId, generationId]
+    );
+  }
+
+  return createSnapshot(projectId, options);
+}
+
+async function recordRevision(
+  projectId: string,
+  branch: string,
+  filePath: string,
+  generationId: string | null,
+  changeType: string,
+  content: string | null
+): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    `INSERT INTO project_file_revisions (id, project_id, branch, file_path, generation_id, change_type, file_content)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [uuidv4(), projectId, branch, filePath, generationId, changeType, content]
+  );
+}
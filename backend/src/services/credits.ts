@@ -0,0 +1,188 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { promisify } from 'util';
+import { withTransaction } from '../database/transaction';
+import { createError } from '../middleware/errorHandler';
+import { calculateCost } from './ai/pricing';
+import { estimateTokens, IMAGE_TOKEN_ESTIMATE } from './ai/tokens';
+import { CompletionRequest, TokenUsage } from './ai/types';
+
+// Ledger entry types. Amounts are signed: grants and releases add credits, reserves and commits remove them.
+export type LedgerEntryType = 'grant' | 'purchase' | 'reserve' | 'release' | 'commit';
+
+// Dollar value of one credit, used to turn provider cost into credits
+const CREDIT_VALUE_USD = parseFloat(process.env.CREDIT_VALUE_USD || '0.10');
+
+// Allowance for the diagnostics sent back in a repair round
+const REPAIR_PROMPT_TOKENS = 1000;
+
+export function creditsForUsage(modelId: string, usage: TokenUsage): number {
+  const credits = calculateCost(modelId, usage) / CREDIT_VALUE_USD;
+  return Math.ceil(credits * 100) / 100;
+}
+
+// Worst-case charge for a request: the prompt plus the full output allowance, plus any repair rounds
+export function estimateRequestCredits(request: CompletionRequest, repairRounds = 0): number {
+  const images = request.messages.reduce((count, message) => count + (message.images?.length || 0), 0);
+  const input = estimateTokens(request.system + request.messages.map(message => message.content).join(''))
+    + images * IMAGE_TOKEN_ESTIMATE;
+  // Each repair round resends the prompt and the previous output, plus the diagnostics
+  const repairInput = input + request.maxTokens + REPAIR_PROMPT_TOKENS;
+  return creditsForUsage(request.model, {
+    inputTokens: input + repairRounds * repairInput,
+    outputTokens: request.maxTokens * (1 + repairRounds),
+    cachedTokens: 0
+  });
+}
+
+export async function getBalance(userId: string): Promise<number> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const result = await get(
+    'SELECT COALESCE(SUM(amount), 0) as balance FROM credit_ledger WHERE user_id = ?',
+    [userId]
+  );
+  return roundCredits(result.balance);
+}
+
+export async function grantCredits(
+  userId: string,
+  amount: number,
+  options: { type?: 'grant' | 'purchase'; referenceId?: string; description?: string } = {}
+): Promise<number> {
+  return withTransaction(async () => {
+    await insertEntry(userId, options.type || 'grant', amount, options.referenceId, options.description);
+    return syncBalance(userId);
+  });
+}
+
+// Hold credits for an operation; fails with 402 if the user can't cover it
+export async function reserveCredits(
+  userId: string,
+  amount: number,
+  referenceId: string,
+  description?: string
+): Promise<void> {
+  // Free operations (e.g. the mock model) leave no trace in the ledger
+  if (amount <= 0) {
+    return;
+  }
+
+  // Estimates can be sums of several requests
+  const held = roundCredits(amount);
+
+  await withTransaction(async () => {
+    const balance = await getBalance(userId);
+    if (balance < held) {
+      throw createError(`Insufficient credits: ${held} required, ${balance} available`, 402);
+    }
+
+    await insertEntry(userId, 'reserve', -held, referenceId, description);
+    await syncBalance(userId);
+  });
+}
+
+// Release the hold and charge the actual amount. Returns the amount charged.
+export async function commitCredits(userId: string, referenceId: string, amount: number, description?: string): Promise<number> {
+  return withTransaction(async () => {
+    const held = await getOpenReservation(userId, referenceId);
+    if (held === null) {
+      return 0;
+    }
+
+    await insertEntry(userId, 'release', held, referenceId);
+    if (amount > 0) {
+      await insertEntry(userId, 'commit', -amount, referenceId, description);
+    }
+    await syncBalance(userId);
+    return amount;
+  });
+}
+
+// Return held credits for an operation that failed or was cancelled
+export async function releaseCredits(userId: string, referenceId: string, description?: string): Promise<void> {
+  await withTransaction(async () => {
+    const held = await getOpenReservation(userId, referenceId);
+    if (held === null) {
+      return;
+    }
+
+    await insertEntry(userId, 'release', held, referenceId, description);
+    await syncBalance(userId);
+  });
+}
+
+// Release holds left by operations that were interrupted (everything except live queued jobs)
+export async function releaseOrphanedReservations(): Promise<number> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const orphaned = await all(
+    `SELECT r.user_id, r.reference_id
+     FROM credit_ledger r
+     WHERE r.entry_type = 'reserve'
+       AND NOT EXISTS (
+         SELECT 1 FROM credit_ledger l
+         WHERE l.reference_id = r.reference_id AND l.entry_type = 'release'
+       )
+       AND r.reference_id NOT IN (
+         SELECT generation_id FROM ai_jobs
+         WHERE generation_id IS NOT NULL AND status IN ('queued', 'running')
+       )`
+  );
+
+  for (const reservation of orphaned) {
+    await releaseCredits(reservation.user_id, reservation.reference_id, 'Released after server restart');
+  }
+
+  return orphaned.length;
+}
+
+async function getOpenReservation(userId: string, referenceId: string): Promise<number | null> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const entries = await all(
+    `SELECT entry_type, amount FROM credit_ledger
+     WHERE user_id = ? AND reference_id = ? AND entry_type IN ('reserve', 'release')`,
+    [userId, referenceId]
+  );
+
+  const reserved = entries.find(entry => entry.entry_type === 'reserve');
+  if (!reserved || entries.some(entry => entry.entry_type === 'release')) {
+    return null;
+  }
+  return -reserved.amount;
+}
+
+async function insertEntry(
+  userId: string,
+  type: LedgerEntryType,
+  amount: number,
+  referenceId?: string,
+  description?: string
+): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    `INSERT INTO credit_ledger (id, user_id, entry_type, amount, reference_id, description)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [uuidv4(), userId, type, roundCredits(amount), referenceId || null, description || null]
+  );
+}
+
+// users.credits is a cached copy of the ledger balance for existing readers
+async function syncBalance(userId: string): Promise<number> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const balance = await getBalance(userId);
+  await run('UPDATE users SET credits = ? WHERE id = ?', [balance, userId]);
+  return balance;
+}
+
+function roundCredits(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
\ No newline at end of file
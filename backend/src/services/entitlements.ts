@@ -0,0 +1,161 @@
+import { getDatabase, QueryGet } from '../database/init';
+import { promisify } from 'util';
+import { createError } from '../middleware/errorHandler';
+
+export type Complexity = 'simple' | 'medium' | 'complex';
+
+// `null` means unlimited
+export interface PlanEntitlements {
+  models: string[] | 'all';
+  defaultModel: string;
+  maxComplexity: Complexity;
+  monthlyGenerations: number | null;
+  privateProjects: number | null;
+  maxProjects: number | null;
+  downloadCode: boolean;
+  // Bytes per uploaded asset, and for all of a project's assets together
+  maxAssetSize: number;
+  assetStorage: number | null;
+}
+
+const MB = 1024 * 1024;
+
+const COMPLEXITY_ORDER: Complexity[] = ['simple', 'medium', 'complex'];
+
+// Cheaper models available on every plan; mock only exists outside production anyway
+const BASIC_MODELS = ['gpt-3.5-turbo', 'claude-3-haiku', 'mock', 'mock-backup'];
+
+export const PLAN_ENTITLEMENTS: Record<string, PlanEntitlements> = {
+  free: {
+    models: BASIC_MODELS,
+    defaultModel: 'gpt-3.5-turbo',
+    maxComplexity: 'medium',
+    monthlyGenerations: 20,
+    privateProjects: 0,
+    maxProjects: 5,
+    downloadCode: false,
+    maxAssetSize: 2 * MB,
+    assetStorage: 20 * MB
+  },
+  starter: {
+    models: BASIC_MODELS,
+    defaultModel: 'gpt-3.5-turbo',
+    maxComplexity: 'complex',
+    monthlyGenerations: 200,
+    privateProjects: 10,
+    maxProjects: 25,
+    downloadCode: true,
+    maxAssetSize: 10 * MB,
+    assetStorage: 200 * MB
+  },
+  pro: {
+    models: 'all',
+    defaultModel: 'gpt-4',
+    maxComplexity: 'complex',
+    monthlyGenerations: null,
+    privateProjects: null,
+    maxProjects: null,
+    downloadCode: true,
+    maxAssetSize: 20 * MB,
+    assetStorage: 1024 * MB
+  },
+  max: {
+    models: 'all',
+    defaultModel: 'gpt-4',
+    maxComplexity: 'complex',
+    monthlyGenerations: null,
+    privateProjects: null,
+    maxProjects: null,
+    downloadCode: true,
+    maxAssetSize: 20 * MB,
+    assetStorage: null
+  }
+};
+
+export function getEntitlements(plan: string): PlanEntitlements {
+  return PLAN_ENTITLEMENTS[plan] || PLAN_ENTITLEMENTS.free;
+}
+
+// Plans that include a feature, for use with requirePlan()
+export function plansWith(feature: 'downloadCode'): string[] {
+  return Object.keys(PLAN_ENTITLEMENTS).filter(plan => PLAN_ENTITLEMENTS[plan][feature]);
+}
+
+export function isModelAllowed(entitlements: PlanEntitlements, modelId: string): boolean {
+  return entitlements.models === 'all' || entitlements.models.includes(modelId);
+}
+
+export function assertModelAllowed(plan: string, modelId: string): void {
+  if (!isModelAllowed(getEntitlements(plan), modelId)) {
+    throw createError(`Model ${modelId} is not available on the ${plan} plan`, 403);
+  }
+}
+
+export function assertComplexityAllowed(plan: string, complexity: Complexity): void {
+  const { maxComplexity } = getEntitlements(plan);
+  if (COMPLEXITY_ORDER.indexOf(complexity) > COMPLEXITY_ORDER.indexOf(maxComplexity)) {
+    throw createError(`Complexity "${complexity}" is not available on the ${plan} plan (max: ${maxComplexity})`, 403);
+  }
+}
+
+export async function getUsage(userId: string): Promise<{ generationsThisMonth: number; projects: number; privateProjects: number }> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  // Failed and cancelled generations don't count against the quota
+  const generations = await get(
+    `SELECT COUNT(*) as count FROM ai_generations
+     WHERE user_id = ? AND created_at >= datetime('now', 'start of month')
+       AND status NOT IN ('error', 'cancelled')`,
+    [userId]
+  );
+
+  const projects = await get(
+    `SELECT COUNT(*) as total, SUM(CASE WHEN visibility = 'private' THEN 1 ELSE 0 END) as private
+     FROM projects WHERE user_id = ?`,
+    [userId]
+  );
+
+  return {
+    generationsThisMonth: generations.count,
+    projects: projects.total,
+    privateProjects: projects.private || 0
+  };
+}
+
+export async function assertGenerationQuota(userId: string, plan: string): Promise<void> {
+  const { monthlyGenerations } = getEntitlements(plan);
+  if (monthlyGenerations === null) {
+    return;
+  }
+
+  const { generationsThisMonth } = await getUsage(userId);
+  if (generationsThisMonth >= monthlyGenerations) {
+    throw createError(`Monthly generation quota reached (${monthlyGenerations} on the ${plan} plan)`, 403);
+  }
+}
+
+export async function assertCanCreateProject(userId: string, plan: string, visibility: string): Promise<void> {
+  const { maxProjects } = getEntitlements(plan);
+  const usage = await getUsage(userId);
+
+  if (maxProjects !== null && usage.projects >= maxProjects) {
+    throw createError(`Project limit reached (${maxProjects} on the ${plan} plan)`, 403);
+  }
+
+  if (visibility === 'private') {
+    assertPrivateProjectAllowed(plan, usage.privateProjects);
+  }
+}
+
+export function assertPrivateProjectAllowed(plan: string, privateProjects: number): void {
+  const allowance = getEntitlements(plan).privateProjects;
+  if (allowance !== null && privateProjects >= allowance) {
+    throw createError(
+      allowance === 0
+        ? `Private projects are not available on the ${plan} plan`
+        : `Private project limit reached (${allowance} on the ${plan} plan)`,
+      403
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+// Path rules shared by every code path that writes into project_files
+
+const MAX_PATH_LENGTH = 255;
+
+export interface PathValidation {
+  path?: string;
+  error?: string;
+}
+
+// Normalize a project-relative path, rejecting absolute paths and traversal
+export function validateFilePath(rawPath: unknown): PathValidation {
+  if (typeof rawPath !== 'string' || !rawPath.trim()) {
+    return { error: 'File path is required' };
+  }
+
+  const candidate = rawPath.trim().replace(/\\/g, '/');
+
+  if (candidate.includes('\0')) {
+    return { error: `Invalid file path: ${rawPath}` };
+  }
+
+  if (candidate.startsWith('/') || /^[a-zA-Z]:/.test(candidate)) {
+    return { error: `Absolute paths are not allowed: ${rawPath}` };
+  }
+
+  const segments = candidate.split('/').filter(segment => segment !== '' && segment !== '.');
+
+  if (segments.includes('..')) {
+    return { error: `Path traversal is not allowed: ${rawPath}` };
+  }
+
+  const path = segments.join('/');
+
+  if (!path) {
+    return { error: `Invalid file path: ${rawPath}` };
+  }
+
+  if (path.length > MAX_PATH_LENGTH) {
+    return { error: `File path exceeds ${MAX_PATH_LENGTH} characters: ${path}` };
+  }
+
+  return { path };
+}
+
+// Validate and normalize a batch of files, reporting bad and duplicate paths
+export function validateFilePaths<T extends { path: string }>(files: T[]): { files: T[]; errors: string[] } {
+  const seen = new Set<string>();
+  const valid: T[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    const { path, error } = validateFilePath(file.path);
+
+    if (error || !path) {
+      errors.push(error || `Invalid file path: ${file.path}`);
+      continue;
+    }
+
+    if (seen.has(path)) {
+      errors.push(`Duplicate file path: ${path}`);
+      continue;
+    }
+
+    seen.add(path);
+    valid.push({ ...file, path });
+  }
+
+  return { files: valid, errors };
+}
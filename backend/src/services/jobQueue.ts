@@ -0,0 +1,303 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { promisify } from 'util';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  type: string;
+  user_id: string;
+  generation_id: string | null;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  run_after: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  attempt: number;
+}
+
+export interface JobHandler {
+  run(job: Job, context: JobContext): Promise<void>;
+  // Called once a job has failed for good (retries exhausted or a permanent error)
+  onFailed?(job: Job, error: Error): Promise<void>;
+}
+
+// Thrown by handlers for failures that should go straight to 'failed'
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+const FINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+const POLL_INTERVAL_MS = 1000;
+const BASE_RETRY_DELAY_MS = parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '2000');
+const MAX_RETRY_DELAY_MS = 60000;
+
+const handlers = new Map<string, JobHandler>();
+const running = new Map<string, AbortController>();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+let pollTimer: NodeJS.Timeout | null = null;
+let concurrency = 2;
+let pumping = false;
+
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+export async function enqueueJob(options: {
+  type: string;
+  userId: string;
+  generationId?: string;
+  payload: any;
+  maxAttempts?: number;
+}): Promise<string> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const jobId = uuidv4();
+  await run(
+    `INSERT INTO ai_jobs (id, type, user_id, generation_id, payload, status, max_attempts)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      jobId,
+      options.type,
+      options.userId,
+      options.generationId || null,
+      JSON.stringify(options.payload),
+      'queued',
+      options.maxAttempts || parseInt(process.env.JOB_MAX_ATTEMPTS || '3')
+    ]
+  );
+
+  setImmediate(pump);
+  return jobId;
+}
+
+export async function getJobForGeneration(generationId: string): Promise<Job | undefined> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const row = await get(
+    'SELECT * FROM ai_jobs WHERE generation_id = ? ORDER BY created_at DESC LIMIT 1',
+    [generationId]
+  );
+  return row ? toJob(row) : undefined;
+}
+
+// Resolve once the job reaches a final state (retries keep it pending)
+export function waitForJob(jobId: string): Promise<JobStatus> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  return new Promise((resolve, reject) => {
+    events.once(`finished:${jobId}`, resolve);
+
+    // The job may already have finished before the listener was attached
+    get('SELECT status FROM ai_jobs WHERE id = ?', [jobId])
+      .then((job: any) => {
+        if (job && FINAL_STATUSES.includes(job.status)) {
+          events.removeListener(`finished:${jobId}`, resolve);
+          resolve(job.status);
+        }
+      })
+      .catch(reject);
+  });
+}
+
+// Cancel a queued job immediately, or abort a running one. Returns false if already finished.
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const job = await get('SELECT status FROM ai_jobs WHERE id = ?', [jobId]);
+  if (!job || FINAL_STATUSES.includes(job.status)) {
+    return false;
+  }
+
+  const changed = await updateJob(
+    jobId,
+    `status = 'cancelled', finished_at = CURRENT_TIMESTAMP`,
+    [],
+    `status IN ('queued', 'running')`
+  );
+
+  running.get(jobId)?.abort();
+  if (changed) {
+    events.emit(`finished:${jobId}`, 'cancelled');
+  }
+  return changed;
+}
+
+// Jobs left 'running' by a crashed process go back to the queue
+export async function recoverJobs(): Promise<number> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const orphaned = await all(`SELECT id FROM ai_jobs WHERE status = 'running'`);
+  await run(`UPDATE ai_jobs SET status = 'queued', locked_at = NULL WHERE status = 'running'`);
+
+  return orphaned.length;
+}
+
+export function startJobWorkers(workerCount: number = parseInt(process.env.JOB_WORKER_CONCURRENCY || '2')): void {
+  concurrency = Math.max(workerCount, 1);
+  if (!pollTimer) {
+    pollTimer = setInterval(pump, POLL_INTERVAL_MS);
+  }
+  setImmediate(pump);
+}
+
+export function stopJobWorkers(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  running.forEach(controller => controller.abort());
+}
+
+async function pump(): Promise<void> {
+  if (pumping || !pollTimer) {
+    return;
+  }
+  pumping = true;
+
+  try {
+    while (running.size < concurrency) {
+      const job = await claimNextJob();
+      if (!job) {
+        break;
+      }
+      execute(job).catch(error => console.error(`Job ${job.id} error:`, error));
+    }
+  } catch (error) {
+    console.error('Job queue error:', error);
+  } finally {
+    pumping = false;
+  }
+}
+
+async function claimNextJob(): Promise<Job | undefined> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const candidate = await get(
+    `SELECT * FROM ai_jobs
+     WHERE status = 'queued' AND (run_after IS NULL OR run_after <= ?)
+     ORDER BY created_at ASC LIMIT 1`,
+    [new Date().toISOString()]
+  );
+
+  if (!candidate) {
+    return undefined;
+  }
+
+  const claimed = await updateJob(
+    candidate.id,
+    `status = 'running', attempts = attempts + 1, locked_at = CURRENT_TIMESTAMP`,
+    [],
+    `status = 'queued'`
+  );
+
+  return claimed ? { ...toJob(candidate), status: 'running', attempts: candidate.attempts + 1 } : undefined;
+}
+
+async function execute(job: Job): Promise<void> {
+  const controller = new AbortController();
+  const handler = handlers.get(job.type);
+  running.set(job.id, controller);
+
+  try {
+    if (!handler) {
+      throw new PermanentJobError(`No handler registered for job type ${job.type}`);
+    }
+
+    await handler.run(job, { signal: controller.signal, attempt: job.attempts });
+
+    if (await updateJob(job.id, `status = 'completed', last_error = NULL, finished_at = CURRENT_TIMESTAMP`, [], `status = 'running'`)) {
+      events.emit(`finished:${job.id}`, 'completed');
+    }
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      // Either cancelJob already recorded the cancellation, or we are shutting
+      // down and the job stays 'running' for recoverJobs to pick up on restart
+      return;
+    }
+
+    const retryable = !(error instanceof PermanentJobError) && job.attempts < job.max_attempts;
+
+    if (retryable) {
+      const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_MS);
+      const jitter = Math.floor(Math.random() * delay * 0.2);
+      const runAfter = new Date(Date.now() + delay + jitter).toISOString();
+
+      await updateJob(
+        job.id,
+        `status = 'queued', run_after = ?, last_error = ?, locked_at = NULL`,
+        [runAfter, error.message],
+        `status = 'running'`
+      );
+      console.warn(`⚠️ Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying: ${error.message}`);
+    } else {
+      if (await updateJob(job.id, `status = 'failed', last_error = ?, finished_at = CURRENT_TIMESTAMP`, [error.message], `status = 'running'`)) {
+        await handler?.onFailed?.(job, error).catch(hookError => {
+          console.error(`Job ${job.id} failure hook error:`, hookError);
+        });
+        events.emit(`finished:${job.id}`, 'failed');
+      }
+      console.error(`❌ Job ${job.id} failed:`, error.message);
+    }
+  } finally {
+    running.delete(job.id);
+    setImmediate(pump);
+  }
+}
+
+// Conditional update that reports whether the row actually changed
+function updateJob(jobId: string, assignments: string, params: any[], condition: string): Promise<boolean> {
+  const db = getDatabase();
+
+  return new Promise((resolve, reject) => {
+    db.run(
+      `UPDATE ai_jobs SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND ${condition}`,
+      [...params, jobId],
+      function (this: { changes: number }, err: Error | null) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      }
+    );
+  });
+}
+
+function toJob(row: any): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    user_id: row.user_id,
+    generation_id: row.generation_id,
+    payload: row.payload ? JSON.parse(row.payload) : {},
+    status: row.status,
+    attempts: row.attempts,
+    max_attempts: row.max_attempts,
+    last_error: row.last_error,
+    run_after: row.run_after,
+    created_at: row.created_at,
+    finished_at: row.finished_at
+  };
+}
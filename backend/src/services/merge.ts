@@ -0,0 +1,185 @@
+// Three-way merge of project file trees. Each path is compared across the merge
+// base and both sides; when both sides changed a file, their line changes are
+// combined if they touch different regions, otherwise the file is a conflict.
+
+// Largest LCS table (lines x lines, after trimming the common prefix and suffix);
+// bigger changes are compared as a single region, which usually conflicts
+const MAX_LCS_CELLS = 4_000_000;
+
+export type ConflictReason = 'content' | 'modify_delete' | 'both_added';
+export type ConflictResolution = 'ours' | 'theirs';
+
+export interface ConflictHunk {
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export interface FileConflict {
+  path: string;
+  reason: ConflictReason;
+  hunks: ConflictHunk[];
+}
+
+export interface TreeMerge {
+  // Merged tree; conflicting paths are only present once resolved
+  files: Map<string, string>;
+  // Paths where both sides changed and the changes were combined line by line
+  merged: string[];
+  conflicts: FileConflict[];
+}
+
+// Matched line pairs of the longest common subsequence of a and b
+function matchLines(a: string[], b: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    matches.set(prefix, prefix);
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    matches.set(a.length - 1 - suffix, b.length - 1 - suffix);
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return matches;
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of a[prefix + i..] and b[prefix + j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = a[prefix + i] === b[prefix + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[prefix + i] === b[prefix + j]) {
+      matches.set(prefix + i, prefix + j);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+// Line-level three-way merge (diff3): base lines kept by both sides anchor the
+// merge, and the regions between anchors take whichever side changed them
+export function mergeText(base: string, ours: string, theirs: string): { content: string; conflicts: ConflictHunk[] } {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const output: string[] = [];
+  const conflicts: ConflictHunk[] = [];
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  const flush = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+    const baseChunk = baseLines.slice(b, baseEnd);
+    const ourChunk = ourLines.slice(o, ourEnd);
+    const theirChunk = theirLines.slice(t, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts.push({ base: baseChunk.join('\n'), ours: ourChunk.join('\n'), theirs: theirChunk.join('\n') });
+      output.push(...ourChunk);
+    }
+  };
+
+  for (let index = 0; index < baseLines.length; index++) {
+    const ourIndex = ourMatches.get(index);
+    const theirIndex = theirMatches.get(index);
+    if (ourIndex === undefined || theirIndex === undefined || ourIndex < o || theirIndex < t) {
+      continue;
+    }
+
+    flush(index, ourIndex, theirIndex);
+    output.push(baseLines[index]);
+    b = index + 1;
+    o = ourIndex + 1;
+    t = theirIndex + 1;
+  }
+  flush(baseLines.length, ourLines.length, theirLines.length);
+
+  return { content: output.join('\n'), conflicts };
+}
+
+// Merge theirs into ours. A path missing from a tree is absent (never added or deleted).
+export function mergeTrees(
+  base: Map<string, string>,
+  ours: Map<string, string>,
+  theirs: Map<string, string>,
+  resolutions: Record<string, ConflictResolution> = {}
+): TreeMerge {
+  const result: TreeMerge = { files: new Map(), merged: [], conflicts: [] };
+  const paths = new Set([...base.keys(), ...ours.keys(), ...theirs.keys()]);
+
+  for (const path of [...paths].sort()) {
+    const baseContent = base.get(path);
+    const ourContent = ours.get(path);
+    const theirContent = theirs.get(path);
+
+    let content: string | undefined;
+    let conflict: FileConflict | null = null;
+
+    if (ourContent === theirContent || theirContent === baseContent) {
+      content = ourContent;
+    } else if (ourContent === baseContent) {
+      content = theirContent;
+    } else if (ourContent === undefined || theirContent === undefined) {
+      conflict = { path, reason: 'modify_delete', hunks: [] };
+    } else if (baseContent === undefined) {
+      conflict = { path, reason: 'both_added', hunks: [] };
+    } else {
+      const merged = mergeText(baseContent, ourContent, theirContent);
+      if (merged.conflicts.length === 0) {
+        content = merged.content;
+        result.merged.push(path);
+      } else {
+        conflict = { path, reason: 'content', hunks: merged.conflicts };
+      }
+    }
+
+    if (conflict) {
+      const resolution = resolutions[path];
+      if (!resolution) {
+        result.conflicts.push(conflict);
+        continue;
+      }
+      content = resolution === 'ours' ? ourContent : theirContent;
+    }
+
+    if (content !== undefined) {
+      result.files.set(path, content);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,139 @@
+import { getDatabase, QueryGet } from '../database/init';
+import { promisify } from 'util';
+import { createError } from '../middleware/errorHandler';
+import { validateFilePath } from './filePaths';
+import { getFileType } from './ai/fileProtocol';
+import { applyChangeset, Changeset, computeChangeset, loadProjectFiles } from './changesets';
+
+// File-level edits of one branch. Operations run in order against a copy of the
+// tree, so a bulk request applies completely or not at all, and the result is
+// written as one changeset with one snapshot. Paths that name a folder (a prefix
+// of other paths) delete or move everything under it.
+
+export type FileOperation =
+  | { op: 'put'; path: string; content: string; type?: string }
+  | { op: 'delete'; path: string }
+  | { op: 'move'; from: string; to: string; overwrite?: boolean };
+
+export interface FileOperationResult {
+  op: FileOperation['op'];
+  paths: string[];
+}
+
+export function normalizeFilePath(rawPath: unknown): string {
+  const { path, error } = validateFilePath(rawPath);
+  if (error || !path) {
+    throw createError(error || `Invalid file path: ${rawPath}`, 400);
+  }
+  return path;
+}
+
+// The file at path, or the files under it when it names a folder
+function matchPaths(tree: Map<string, string>, path: string): string[] {
+  if (tree.has(path)) {
+    return [path];
+  }
+  return [...tree.keys()].filter(candidate => candidate.startsWith(`${path}/`));
+}
+
+// A file can't share its path with a folder, in either direction
+function assertNoFolderClash(tree: Map<string, string>, path: string): void {
+  const segments = path.split('/');
+  for (let length = 1; length < segments.length; length++) {
+    const parent = segments.slice(0, length).join('/');
+    if (tree.has(parent)) {
+      throw createError(`${parent} is a file, so ${path} can't be created under it`, 409);
+    }
+  }
+  if ([...tree.keys()].some(candidate => candidate.startsWith(`${path}/`))) {
+    throw createError(`${path} is a folder`, 409);
+  }
+}
+
+export function applyFileOperations(
+  current: Map<string, string>,
+  operations: FileOperation[]
+): { changeset: Changeset; results: FileOperationResult[] } {
+  const tree = new Map(current);
+  const types = new Map<string, string>();
+  const touched = new Set<string>();
+  const results: FileOperationResult[] = [];
+
+  for (const operation of operations) {
+    if (operation.op === 'put') {
+      const path = normalizeFilePath(operation.path);
+      if (!tree.has(path)) {
+        assertNoFolderClash(tree, path);
+      }
+      tree.set(path, operation.content);
+      if (operation.type) {
+        types.set(path, operation.type);
+      }
+      touched.add(path);
+      results.push({ op: 'put', paths: [path] });
+    } else if (operation.op === 'delete') {
+      const path = normalizeFilePath(operation.path);
+      const paths = matchPaths(tree, path);
+      if (paths.length === 0) {
+        throw createError(`File not found: ${path}`, 404);
+      }
+      paths.forEach(deleted => {
+        tree.delete(deleted);
+        touched.add(deleted);
+      });
+      results.push({ op: 'delete', paths });
+    } else {
+      const from = normalizeFilePath(operation.from);
+      const to = normalizeFilePath(operation.to);
+      const paths = matchPaths(tree, from);
+      if (paths.length === 0) {
+        throw createError(`File not found: ${from}`, 404);
+      }
+      if (to === from || to.startsWith(`${from}/`)) {
+        throw createError(`Cannot move ${from} into itself`, 400);
+      }
+
+      const moves = paths.map(path => ({ from: path, to: to + path.slice(from.length), content: tree.get(path)! }));
+      for (const move of moves) {
+        tree.delete(move.from);
+        touched.add(move.from);
+      }
+      for (const move of moves) {
+        if (tree.has(move.to) && !operation.overwrite) {
+          throw createError(`${move.to} already exists`, 409);
+        }
+        if (!tree.has(move.to)) {
+          assertNoFolderClash(tree, move.to);
+        }
+        tree.set(move.to, move.content);
+        touched.add(move.to);
+      }
+      results.push({ op: 'move', paths: moves.map(move => move.to) });
+    }
+  }
+
+  const incoming = [...touched]
+    .filter(path => tree.has(path))
+    .map(path => ({ path, content: tree.get(path)!, type: types.get(path) || getFileType(path) }));
+  const changeset = computeChangeset(current, incoming);
+  changeset.deleted = [...touched].filter(path => !tree.has(path) && current.has(path));
+
+  return { changeset, results };
+}
+
+export async function writeFileOperations(projectId: string, branch: string, operations: FileOperation[], userId: string) {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const { changeset, results } = applyFileOperations(await loadProjectFiles(projectId, branch), operations);
+
+  // A path can't hold both a text file and an uploaded asset
+  for (const file of changeset.added) {
+    if (await get('SELECT id FROM project_assets WHERE project_id = ? AND file_path = ?', [projectId, file.path])) {
+      throw createError(`${file.path} is an uploaded asset`, 409);
+    }
+  }
+
+  const snapshot = await applyChangeset(projectId, changeset, { source: 'code_update', branch, createdBy: userId });
+  return { changeset, results, snapshot };
+}
@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryRun } from '../database/init';
+import { withTransaction } from '../database/transaction';
+import { promisify } from 'util';
+import { createError } from '../middleware/errorHandler';
+import { validateFilePath } from './filePaths';
+import { getFileType } from './ai/fileProtocol';
+import { AssetUpload, isAssetPath, prepareAssets, writeAssets } from './assets';
+import { MAIN_BRANCH } from './branches';
+import { createSnapshot } from './snapshots';
+import { listZipEntries, readZipEntry } from './zipArchive';
+
+// Turn an uploaded ZIP of an existing project into a new project. Dependencies,
+// build output, lockfiles and env files are left out. Everything else must have a
+// safe relative path; one entry escaping the project rejects the whole archive.
+
+const MB = 1024 * 1024;
+
+// The archive itself; the upload is cut off at this size
+export const MAX_IMPORT_ARCHIVE_SIZE = 25 * MB;
+
+// Entries in the archive, including skipped ones
+const MAX_ARCHIVE_ENTRIES = 20000;
+
+// Imported files and their uncompressed size
+const MAX_IMPORTED_FILES = 1000;
+const MAX_IMPORTED_SIZE = 50 * MB;
+
+// Larger text files (bundles, generated data) are skipped
+const MAX_TEXT_FILE_SIZE = 1 * MB;
+
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', 'bower_components', 'jspm_packages', '.git', '.svn', '.hg',
+  'dist', 'build', 'out', '.next', '.nuxt', '.output', '.angular', '.svelte-kit', '.vercel', '.netlify',
+  '.cache', '.parcel-cache', '.vite', '.turbo', 'coverage', '.nyc_output', '__MACOSX'
+]);
+
+const IGNORED_FILES = new Set([
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'npm-shrinkwrap.json', '.DS_Store', 'Thumbs.db'
+]);
+
+export type SkipReason = 'ignored' | 'secret' | 'symlink' | 'binary' | 'too_large';
+
+export interface ImportedArchive {
+  files: { path: string; content: string; type: string }[];
+  assets: AssetUpload[];
+  skipped: { path: string; reason: SkipReason }[];
+  techStack: string;
+  packageName: string | null;
+}
+
+// Archives made by zipping a folder put everything under that folder's name
+function commonRoot(paths: string[]): string {
+  const roots = new Set(paths.map(path => (path.includes('/') ? path.split('/')[0] : '')));
+  if (roots.size !== 1) {
+    return '';
+  }
+  const [root] = roots;
+  return root ? `${root}/` : '';
+}
+
+// Most specific framework first: Next and Nuxt projects also depend on React and Vue
+export function detectTechStack(packageJson: any): string {
+  const dependencies = { ...packageJson?.devDependencies, ...packageJson?.dependencies };
+  if (dependencies.next) return 'next';
+  if (dependencies.nuxt || dependencies.nuxt3) return 'nuxt';
+  if (dependencies['@angular/core']) return 'angular';
+  if (dependencies.vue) return 'vue';
+  if (dependencies.react) return 'react';
+  return 'vanilla';
+}
+
+export function readProjectArchive(archive: Buffer): ImportedArchive {
+  const entries = listZipEntries(archive, MAX_ARCHIVE_ENTRIES).filter(entry => !entry.isDirectory);
+
+  // Reject traversal and absolute paths (zip-slip) before anything is read
+  const paths = entries.map(entry => {
+    const { path, error } = validateFilePath(entry.name);
+    if (error || !path) {
+      throw createError(`Unsafe path in archive: ${entry.name}`, 400);
+    }
+    return path;
+  });
+  const root = commonRoot(paths.filter(path => !path.startsWith('__MACOSX/')));
+
+  const result: ImportedArchive = { files: [], assets: [], skipped: [], techStack: 'vanilla', packageName: null };
+  const ignoredDirectories = new Set<string>();
+  const imported = new Set<string>();
+  let importedSize = 0;
+
+  entries.forEach((entry, index) => {
+    const path = paths[index].startsWith(root) ? paths[index].slice(root.length) : paths[index];
+    const segments = path.split('/');
+    const fileName = segments[segments.length - 1];
+
+    const ignoredAt = segments.slice(0, -1).findIndex(segment => IGNORED_DIRECTORIES.has(segment));
+    if (ignoredAt >= 0) {
+      ignoredDirectories.add(`${segments.slice(0, ignoredAt + 1).join('/')}/`);
+      return;
+    }
+    if (IGNORED_FILES.has(fileName)) {
+      result.skipped.push({ path, reason: 'ignored' });
+      return;
+    }
+    if (fileName === '.env' || (fileName.startsWith('.env.') && fileName !== '.env.example')) {
+      result.skipped.push({ path, reason: 'secret' });
+      return;
+    }
+    if (entry.isSymlink) {
+      result.skipped.push({ path, reason: 'symlink' });
+      return;
+    }
+    const isAsset = isAssetPath(path);
+    if (!isAsset && entry.size > MAX_TEXT_FILE_SIZE) {
+      result.skipped.push({ path, reason: 'too_large' });
+      return;
+    }
+
+    if (imported.has(path)) {
+      throw createError(`Duplicate file path in archive: ${path}`, 400);
+    }
+    imported.add(path);
+
+    importedSize += entry.size;
+    if (result.files.length + result.assets.length >= MAX_IMPORTED_FILES) {
+      throw createError(`Archive has more than ${MAX_IMPORTED_FILES} files to import`, 413);
+    }
+    if (importedSize > MAX_IMPORTED_SIZE) {
+      throw createError(`Archive contents exceed ${MAX_IMPORTED_SIZE / MB} MB`, 413);
+    }
+
+    const data = readZipEntry(archive, entry);
+    if (isAsset) {
+      result.assets.push({ path, data, originalName: fileName });
+    } else if (data.includes(0)) {
+      result.skipped.push({ path, reason: 'binary' });
+    } else {
+      result.files.push({ path, content: data.toString('utf8'), type: getFileType(path) });
+    }
+  });
+
+  result.skipped.unshift(...[...ignoredDirectories].sort().map(path => ({ path, reason: 'ignored' as SkipReason })));
+
+  const packageFile = result.files.find(file => file.path === 'package.json');
+  if (packageFile) {
+    try {
+      const packageJson = JSON.parse(packageFile.content);
+      result.techStack = detectTechStack(packageJson);
+      result.packageName = typeof packageJson.name === 'string' ? packageJson.name : null;
+    } catch {
+      // An unparseable package.json is imported as it is
+    }
+  }
+
+  return result;
+}
+
+// Create the project with its files and assets in one transaction, snapshotted as its first version
+export async function createImportedProject(
+  project: { name: string; description?: string; techStack: string; visibility: string },
+  imported: ImportedArchive,
+  user: { id: string; plan: string }
+): Promise<{ id: string; version: number | null }> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const assets = prepareAssets(imported.assets, user.plan);
+
+  const projectId = uuidv4();
+  return withTransaction(async () => {
+    await run(
+      `INSERT INTO projects (id, user_id, name, description, tech_stack, visibility, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [projectId, user.id, project.name, project.description, project.techStack, project.visibility, 'draft']
+    );
+
+    for (const file of imported.files) {
+      await run(
+        `INSERT INTO project_files (id, project_id, branch, file_path, file_content, file_type, size)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), projectId, MAIN_BRANCH, file.path, file.content, file.type, file.content.length]
+      );
+    }
+
+    // Checks the plan's asset storage; going over it rolls back the whole import
+    await writeAssets(projectId, assets, user.id, user.plan);
+
+    if (imported.files.length === 0) {
+      return { id: projectId, version: null };
+    }
+    const snapshot = await createSnapshot(projectId, { source: 'import', branch: MAIN_BRANCH, createdBy: user.id });
+    return { id: projectId, version: snapshot.version };
+  });
+}
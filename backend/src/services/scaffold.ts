@@ -0,0 +1,616 @@
+// Runnable project skeletons for downloads. Each stack supplies its build config,
+// tsconfig, HTML shell and entry point, plus placeholder root components, so a
+// download installs and starts with `npm install && npm run dev`. Project files
+// always win: a scaffold file is only added where the project has nothing at that
+// path, and package.json is merged with the project's values taking precedence.
+
+export interface ScaffoldProject {
+  name: string;
+  description?: string | null;
+  techStack: string;
+}
+
+interface ScaffoldFile {
+  path: string;
+  content: string;
+  // Left out when any project path matches, e.g. an App.jsx instead of App.tsx
+  replacedBy?: RegExp;
+}
+
+interface StackScaffold {
+  scripts: Record<string, string>;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  files(project: ScaffoldProject, paths: Set<string>): ScaffoldFile[];
+}
+
+const REACT_VERSION = '^18.2.0';
+const VUE_VERSION = '^3.4.0';
+const VITE_VERSION = '^5.0.0';
+const TYPESCRIPT_VERSION = '^5.0.0';
+const ANGULAR_VERSION = '^17.3.0';
+
+const VITE_SCRIPTS = {
+  dev: 'vite',
+  build: 'vite build',
+  preview: 'vite preview'
+};
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function text(content: string): string {
+  return `${content.trim()}\n`;
+}
+
+// A JS string literal that is also safe inside <script> and .vue files
+function jsString(value: string): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// npm package names are lowercase, URL-safe and can't start with a dot or underscore
+export function toPackageName(name: string): string {
+  const packageName = name.toLowerCase().replace(/[^a-z0-9._~-]+/g, '-').replace(/^[-._]+|-+$/g, '');
+  return packageName.slice(0, 214) || 'app';
+}
+
+// Entry points index.html can load, in order of preference; the first is the scaffold's own
+const REACT_ENTRIES = ['main', 'index'].flatMap(name => ['tsx', 'jsx', 'ts', 'js'].map(ext => `src/${name}.${ext}`));
+const VUE_ENTRIES = ['src/main.ts', 'src/main.js'];
+
+// The project's own entry point when it has one, so index.html loads a file that exists
+function entryPath(paths: Set<string>, candidates: string[]): string {
+  return candidates.find(path => paths.has(path)) || candidates[0];
+}
+
+function htmlShell(project: ScaffoldProject, body: string): string {
+  return text(`
+<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(project.name)}</title>
+  </head>
+  <body>
+${body}
+  </body>
+</html>`);
+}
+
+function vuePlaceholder(project: ScaffoldProject): string {
+  return text(`
+<template>
+  <h1>{{ title }}</h1>
+</template>
+
+<script setup lang="ts">
+const title = ${jsString(project.name)};
+</script>`);
+}
+
+const VITE_TSCONFIG_OPTIONS = {
+  target: 'ES2020',
+  useDefineForClassFields: true,
+  lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+  module: 'ESNext',
+  skipLibCheck: true,
+  moduleResolution: 'bundler',
+  allowImportingTsExtensions: true,
+  resolveJsonModule: true,
+  isolatedModules: true,
+  noEmit: true,
+  strict: true
+};
+
+const STACKS: Record<string, StackScaffold> = {
+  react: {
+    scripts: VITE_SCRIPTS,
+    dependencies: {
+      'react': REACT_VERSION,
+      'react-dom': REACT_VERSION
+    },
+    devDependencies: {
+      'vite': VITE_VERSION,
+      '@vitejs/plugin-react': '^4.2.0',
+      'typescript': TYPESCRIPT_VERSION,
+      '@types/react': REACT_VERSION,
+      '@types/react-dom': REACT_VERSION
+    },
+    files: (project, paths) => [
+      {
+        path: 'vite.config.ts',
+        content: text(`
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()]
+});`)
+      },
+      {
+        path: 'tsconfig.json',
+        content: json({ compilerOptions: { ...VITE_TSCONFIG_OPTIONS, jsx: 'react-jsx' }, include: ['src'] })
+      },
+      {
+        path: 'index.html',
+        content: htmlShell(project, `    <div id="root"></div>\n    <script type="module" src="/${entryPath(paths, REACT_ENTRIES)}"></script>`)
+      },
+      {
+        path: 'src/main.tsx',
+        replacedBy: /^src\/(main|index)\.[jt]sx?$/,
+        content: text(`
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App';
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);`)
+      },
+      {
+        path: 'src/App.tsx',
+        replacedBy: /^src\/App\.[jt]sx?$/,
+        content: text(`
+export default function App() {
+  return <h1>{${jsString(project.name)}}</h1>;
+}`)
+      },
+      {
+        path: 'src/vite-env.d.ts',
+        content: text('/// <reference types="vite/client" />')
+      }
+    ]
+  },
+
+  vue: {
+    scripts: VITE_SCRIPTS,
+    dependencies: {
+      vue: VUE_VERSION
+    },
+    devDependencies: {
+      'vite': VITE_VERSION,
+      '@vitejs/plugin-vue': '^5.0.0',
+      'typescript': TYPESCRIPT_VERSION
+    },
+    files: (project, paths) => [
+      {
+        path: 'vite.config.ts',
+        content: text(`
+import { defineConfig } from 'vite';
+import vue from '@vitejs/plugin-vue';
+
+export default defineConfig({
+  plugins: [vue()]
+});`)
+      },
+      {
+        path: 'tsconfig.json',
+        content: json({
+          compilerOptions: { ...VITE_TSCONFIG_OPTIONS, jsx: 'preserve' },
+          include: ['src/**/*.ts', 'src/**/*.d.ts', 'src/**/*.tsx', 'src/**/*.vue']
+        })
+      },
+      {
+        path: 'index.html',
+        content: htmlShell(project, `    <div id="app"></div>\n    <script type="module" src="/${entryPath(paths, VUE_ENTRIES)}"></script>`)
+      },
+      {
+        path: 'src/main.ts',
+        replacedBy: /^src\/main\.js$/,
+        content: text(`
+import { createApp } from 'vue';
+import App from './App.vue';
+${paths.has('src/style.css') ? "import './style.css';\n" : ''}
+createApp(App).mount('#app');`)
+      },
+      {
+        path: 'src/App.vue',
+        content: vuePlaceholder(project)
+      },
+      {
+        path: 'src/env.d.ts',
+        content: text(`
+/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue';
+  const component: DefineComponent<object, object, any>;
+  export default component;
+}`)
+      }
+    ]
+  },
+
+  vanilla: {
+    scripts: VITE_SCRIPTS,
+    dependencies: {},
+    devDependencies: {
+      vite: VITE_VERSION
+    },
+    files: (project, paths) => [
+      {
+        path: 'index.html',
+        content: htmlShell(
+          project,
+          `${paths.has('style.css') ? '    <link rel="stylesheet" href="/style.css" />\n' : ''}    <main id="app"></main>\n    <script type="module" src="/main.js"></script>`
+        )
+      },
+      {
+        path: 'main.js',
+        content: text(`document.getElementById('app').innerHTML = ${jsString(`<h1>${escapeHtml(project.name)}</h1>`)};`)
+      }
+    ]
+  },
+
+  next: {
+    scripts: {
+      dev: 'next dev',
+      build: 'next build',
+      start: 'next start'
+    },
+    dependencies: {
+      'next': '^14.2.0',
+      'react': REACT_VERSION,
+      'react-dom': REACT_VERSION
+    },
+    devDependencies: {
+      'typescript': TYPESCRIPT_VERSION,
+      '@types/node': '^20.0.0',
+      '@types/react': REACT_VERSION,
+      '@types/react-dom': REACT_VERSION
+    },
+    files: project => [
+      {
+        path: 'next.config.mjs',
+        replacedBy: /^next\.config\.[cm]?[jt]s$/,
+        content: text(`
+/** @type {import('next').NextConfig} */
+const nextConfig = {};
+
+export default nextConfig;`)
+      },
+      {
+        path: 'tsconfig.json',
+        content: json({
+          compilerOptions: {
+            target: 'ES2017',
+            lib: ['dom', 'dom.iterable', 'esnext'],
+            allowJs: true,
+            skipLibCheck: true,
+            strict: true,
+            noEmit: true,
+            esModuleInterop: true,
+            module: 'esnext',
+            moduleResolution: 'bundler',
+            resolveJsonModule: true,
+            isolatedModules: true,
+            jsx: 'preserve',
+            incremental: true,
+            plugins: [{ name: 'next' }],
+            paths: { '@/*': ['./*'] }
+          },
+          include: ['next-env.d.ts', '**/*.ts', '**/*.tsx', '.next/types/**/*.ts'],
+          exclude: ['node_modules']
+        })
+      },
+      {
+        path: 'next-env.d.ts',
+        content: text(`
+/// <reference types="next" />
+/// <reference types="next/image-types/global" />`)
+      },
+      // Projects with their own src/app or pages router keep it; Next can't use both
+      {
+        path: 'app/layout.tsx',
+        replacedBy: /^(src\/)?(app\/layout\.[jt]sx?$|pages\/)/,
+        content: text(`
+import type { ReactNode } from 'react';
+
+export const metadata = {
+  title: ${jsString(project.name)},
+  description: ${jsString(project.description || '')}
+};
+
+export default function RootLayout({ children }: { children: ReactNode }) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}`)
+      },
+      {
+        path: 'app/page.tsx',
+        replacedBy: /^(src\/)?(app\/page\.[jt]sx?$|pages\/)/,
+        content: text(`
+export default function Home() {
+  return <h1>{${jsString(project.name)}}</h1>;
+}`)
+      }
+    ]
+  },
+
+  nuxt: {
+    scripts: {
+      dev: 'nuxt dev',
+      build: 'nuxt build',
+      generate: 'nuxt generate',
+      preview: 'nuxt preview',
+      postinstall: 'nuxt prepare'
+    },
+    dependencies: {
+      nuxt: '^3.11.0',
+      vue: VUE_VERSION
+    },
+    devDependencies: {},
+    files: project => [
+      {
+        path: 'nuxt.config.ts',
+        replacedBy: /^nuxt\.config\.[jt]s$/,
+        content: text(`
+export default defineNuxtConfig({
+  app: {
+    head: {
+      title: ${jsString(project.name)}
+    }
+  }
+});`)
+      },
+      {
+        path: 'tsconfig.json',
+        content: json({ extends: './.nuxt/tsconfig.json' })
+      },
+      // Nuxt renders pages/ by itself when there is no app.vue
+      {
+        path: 'app.vue',
+        replacedBy: /^pages\//,
+        content: vuePlaceholder(project)
+      }
+    ]
+  },
+
+  angular: {
+    scripts: {
+      ng: 'ng',
+      dev: 'ng serve',
+      start: 'ng serve',
+      build: 'ng build'
+    },
+    dependencies: {
+      '@angular/common': ANGULAR_VERSION,
+      '@angular/compiler': ANGULAR_VERSION,
+      '@angular/core': ANGULAR_VERSION,
+      '@angular/forms': ANGULAR_VERSION,
+      '@angular/platform-browser': ANGULAR_VERSION,
+      '@angular/router': ANGULAR_VERSION,
+      'rxjs': '~7.8.0',
+      'tslib': '^2.6.0',
+      'zone.js': '~0.14.0'
+    },
+    devDependencies: {
+      '@angular-devkit/build-angular': ANGULAR_VERSION,
+      '@angular/cli': ANGULAR_VERSION,
+      '@angular/compiler-cli': ANGULAR_VERSION,
+      'typescript': '~5.4.0'
+    },
+    files: project => {
+      const name = toPackageName(project.name);
+      return [
+        {
+          path: 'angular.json',
+          content: json({
+            $schema: './node_modules/@angular/cli/lib/config/schema.json',
+            version: 1,
+            newProjectRoot: 'projects',
+            projects: {
+              [name]: {
+                projectType: 'application',
+                root: '',
+                sourceRoot: 'src',
+                prefix: 'app',
+                architect: {
+                  build: {
+                    builder: '@angular-devkit/build-angular:application',
+                    options: {
+                      outputPath: `dist/${name}`,
+                      index: 'src/index.html',
+                      browser: 'src/main.ts',
+                      polyfills: ['zone.js'],
+                      tsConfig: 'tsconfig.app.json',
+                      assets: [{ glob: '**/*', input: 'public' }],
+                      styles: ['src/styles.css'],
+                      scripts: []
+                    },
+                    configurations: {
+                      production: { outputHashing: 'all' },
+                      development: { optimization: false, extractLicenses: false, sourceMap: true }
+                    },
+                    defaultConfiguration: 'production'
+                  },
+                  serve: {
+                    builder: '@angular-devkit/build-angular:dev-server',
+                    configurations: {
+                      production: { buildTarget: `${name}:build:production` },
+                      development: { buildTarget: `${name}:build:development` }
+                    },
+                    defaultConfiguration: 'development'
+                  }
+                }
+              }
+            }
+          })
+        },
+        {
+          path: 'tsconfig.json',
+          content: json({
+            compileOnSave: false,
+            compilerOptions: {
+              outDir: './dist/out-tsc',
+              strict: true,
+              noImplicitOverride: true,
+              noImplicitReturns: true,
+              noFallthroughCasesInSwitch: true,
+              skipLibCheck: true,
+              esModuleInterop: true,
+              sourceMap: true,
+              declaration: false,
+              experimentalDecorators: true,
+              moduleResolution: 'node',
+              importHelpers: true,
+              target: 'ES2022',
+              module: 'ES2022',
+              useDefineForClassFields: false,
+              lib: ['ES2022', 'dom']
+            },
+            angularCompilerOptions: {
+              strictInjectionParameters: true,
+              strictInputAccessModifiers: true,
+              strictTemplates: true
+            }
+          })
+        },
+        {
+          path: 'tsconfig.app.json',
+          content: json({
+            extends: './tsconfig.json',
+            compilerOptions: { outDir: './out-tsc/app', types: [] },
+            files: ['src/main.ts'],
+            include: ['src/**/*.d.ts']
+          })
+        },
+        {
+          path: 'src/index.html',
+          content: htmlShell(project, '    <app-root></app-root>')
+        },
+        {
+          path: 'src/main.ts',
+          content: text(`
+import { bootstrapApplication } from '@angular/platform-browser';
+import { AppComponent } from './app/app.component';
+
+bootstrapApplication(AppComponent).catch(error => console.error(error));`)
+        },
+        {
+          path: 'src/app/app.component.ts',
+          content: text(`
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-root',
+  standalone: true,
+  template: '<h1>{{ title }}</h1>'
+})
+export class AppComponent {
+  title = ${jsString(project.name)};
+}`)
+        },
+        {
+          path: 'src/styles.css',
+          content: ''
+        }
+      ];
+    }
+  }
+};
+
+function readme(project: ScaffoldProject, scripts: Record<string, string>): string {
+  const commands = ['npm install', 'npm run dev', ...(scripts.build ? ['npm run build'] : [])];
+  return text(`
+# ${project.name}
+${project.description ? `\n${project.description}\n` : ''}
+## Getting started
+
+\`\`\`bash
+${commands.join('\n')}
+\`\`\``);
+}
+
+const GITIGNORE = text(`
+node_modules/
+dist/
+.next/
+.nuxt/
+.output/
+.angular/
+.env
+.env.local`);
+
+function withoutKeys(record: Record<string, string>, keys: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !(key in keys)));
+}
+
+// The project's values win; scripts and dependency lists are merged key by key
+function mergePackageJson(scaffold: Record<string, any>, projectContent: string): string {
+  let project: Record<string, any>;
+  try {
+    project = JSON.parse(projectContent);
+  } catch {
+    return projectContent;
+  }
+  if (!project || typeof project !== 'object' || Array.isArray(project)) {
+    return projectContent;
+  }
+
+  // A package the project lists in either section stays where the project put it
+  const projectDependencies = project.dependencies || {};
+  const projectDevDependencies = project.devDependencies || {};
+  const dependencies = { ...withoutKeys(scaffold.dependencies, projectDevDependencies), ...projectDependencies };
+  const devDependencies = { ...withoutKeys(scaffold.devDependencies, projectDependencies), ...projectDevDependencies };
+
+  return json({
+    ...scaffold,
+    ...project,
+    scripts: { ...scaffold.scripts, ...project.scripts },
+    dependencies,
+    devDependencies
+  });
+}
+
+// The project's text files completed into a runnable project. otherPaths are
+// paths the project fills some other way (uploaded assets), which scaffold
+// files never replace.
+export function scaffoldProject(
+  project: ScaffoldProject,
+  files: Map<string, string>,
+  otherPaths: string[] = []
+): Map<string, string> {
+  const stack = STACKS[project.techStack] || STACKS.react;
+  const paths = new Set([...files.keys(), ...otherPaths]);
+
+  const packageJson = {
+    name: toPackageName(project.name),
+    version: '1.0.0',
+    private: true,
+    description: project.description || '',
+    ...(stack.scripts.dev === 'vite' ? { type: 'module' } : {}),
+    scripts: stack.scripts,
+    dependencies: stack.dependencies,
+    devDependencies: stack.devDependencies
+  };
+
+  const scaffoldFiles: ScaffoldFile[] = [
+    ...stack.files(project, paths),
+    { path: 'README.md', content: readme(project, stack.scripts) },
+    { path: '.gitignore', content: GITIGNORE }
+  ];
+
+  const result = new Map(files);
+  for (const file of scaffoldFiles) {
+    const replaced = paths.has(file.path) || (file.replacedBy && [...paths].some(path => file.replacedBy!.test(path)));
+    if (!replaced) {
+      result.set(file.path, file.content);
+    }
+  }
+
+  result.set('package.json', files.has('package.json') ? mergePackageJson(packageJson, files.get('package.json')!) : json(packageJson));
+
+  return result;
+}
@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+import { createError } from '../middleware/errorHandler';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+// Any string works as the master key; it is stretched to 32 bytes with SHA-256
+function getMasterKey(): Buffer {
+  const masterKey = process.env.API_KEY_ENCRYPTION_KEY;
+  if (!masterKey) {
+    throw createError('API key storage is not configured (API_KEY_ENCRYPTION_KEY is missing)', 503);
+  }
+  return crypto.createHash('sha256').update(masterKey).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getMasterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [FORMAT_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getMasterKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+// Last characters of a key, safe to show in the UI
+export function maskSecret(secret: string): string {
+  return `…${secret.slice(-4)}`;
+}
\ No newline at end of file
@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, QueryGet, QueryAll, QueryRun } from '../database/init';
+import { promisify } from 'util';
+
+// Every write to a project's files ends with a snapshot of the resulting tree, so
+// earlier versions survive a bad generation. Snapshots are never changed once
+// written; restoring one writes its files back and takes a new snapshot. Contents
+// are stored once per distinct SHA-256 in snapshot_blobs. Versions are numbered
+// per project across all branches.
+
+export type SnapshotSource = 'baseline' | 'code_update' | 'generation' | 'edit' | 'restore' | 'branch' | 'merge' | 'import';
+
+export interface NewSnapshot {
+  source: SnapshotSource;
+  branch: string;
+  createdBy: string;
+  generationId?: string | null;
+  restoredFrom?: string | null;
+}
+
+export interface SnapshotFile {
+  path: string;
+  type: string;
+  size: number;
+  content?: string;
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+async function storeBlob(content: string): Promise<string> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const hash = hashContent(content);
+  await run('INSERT OR IGNORE INTO snapshot_blobs (hash, content) VALUES (?, ?)', [hash, content]);
+  return hash;
+}
+
+// Record a branch's current files as the project's next version. Call inside the
+// transaction that changed them so the version matches what was written.
+export async function createSnapshot(projectId: string, snapshot: NewSnapshot): Promise<any> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+  const all = promisify(db.all.bind(db)) as QueryAll;
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  const project = await get('SELECT code_content FROM projects WHERE id = ?', [projectId]);
+
+  const rows = await all(
+    'SELECT file_path, file_content, file_type FROM project_files WHERE project_id = ? AND branch = ? ORDER BY file_path',
+    [projectId, snapshot.branch]
+  );
+  const files = new Map<string, { content: string; type: string }>();
+  for (const row of rows) {
+    files.set(row.file_path, { content: row.file_content ?? '', type: row.file_type || 'text' });
+  }
+
+  const latest = await get('SELECT MAX(version) as version FROM project_snapshots WHERE project_id = ?', [projectId]);
+  const version = (latest?.version || 0) + 1;
+  const snapshotId = uuidv4();
+  const codeContentHash = project?.code_content ? await storeBlob(project.code_content) : null;
+  const size = [...files.values()].reduce((total, file) => total + file.content.length, 0);
+
+  await run(
+    `INSERT INTO project_snapshots
+     (id, project_id, branch, version, source, generation_id, restored_from, code_content_hash, file_count, size, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      snapshotId, projectId, snapshot.branch, version, snapshot.source, snapshot.generationId || null, snapshot.restoredFrom || null,
+      codeContentHash, files.size, size, snapshot.createdBy
+    ]
+  );
+
+  for (const [filePath, file] of files) {
+    await run(
+      `INSERT INTO project_snapshot_files (snapshot_id, file_path, file_type, size, content_hash)
+       VALUES (?, ?, ?, ?, ?)`,
+      [snapshotId, filePath, file.type, file.content.length, await storeBlob(file.content)]
+    );
+  }
+
+  return getSnapshot(projectId, version);
+}
+
+// Projects with files from before snapshots existed get their current state
+// recorded before the first change, so that change can be undone too
+export async function ensureBaselineSnapshot(projectId: string, branch: string, createdBy: string): Promise<void> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const existing = await get('SELECT id FROM project_snapshots WHERE project_id = ? AND branch = ? LIMIT 1', [projectId, branch]);
+  if (existing) {
+    return;
+  }
+
+  const content = await get(
+    `SELECT (SELECT COUNT(*) FROM project_files WHERE project_id = ? AND branch = ?) as file_count, code_content
+     FROM projects WHERE id = ?`,
+    [projectId, branch, projectId]
+  );
+  if (content && (content.file_count > 0 || content.code_content)) {
+    await createSnapshot(projectId, { source: 'baseline', branch, createdBy });
+  }
+}
+
+// The latest snapshot of a branch, which matches its current files
+export async function getBranchHead(projectId: string, branch: string): Promise<any> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  return get(
+    'SELECT * FROM project_snapshots WHERE project_id = ? AND branch = ? ORDER BY version DESC LIMIT 1',
+    [projectId, branch]
+  );
+}
+
+export async function getSnapshot(projectId: string, version: number): Promise<any> {
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  return get(
+    `SELECT s.*, r.version as restored_from_version
+     FROM project_snapshots s
+     LEFT JOIN project_snapshots r ON r.id = s.restored_from
+     WHERE s.project_id = ? AND s.version = ?`,
+    [projectId, version]
+  );
+}
+
+export async function loadSnapshotFiles(snapshotId: string, includeContent: boolean): Promise<SnapshotFile[]> {
+  const db = getDatabase();
+  const all = promisify(db.all.bind(db)) as QueryAll;
+
+  const rows = await all(
+    `SELECT f.file_path, f.file_type, f.size${includeContent ? ', b.content' : ''}
+     FROM project_snapshot_files f
+     ${includeContent ? 'JOIN snapshot_blobs b ON b.hash = f.content_hash' : ''}
+     WHERE f.snapshot_id = ?
+     ORDER BY f.file_path`,
+    [snapshotId]
+  );
+
+  return rows.map((row: any) => ({
+    path: row.file_path,
+    type: row.file_type,
+    size: row.size,
+    ...(includeContent ? { content: row.content } : {})
+  }));
+}
+
+export async function loadSnapshotTree(snapshotId: string): Promise<Map<string, string>> {
+  const files = await loadSnapshotFiles(snapshotId, true);
+  return new Map(files.map(file => [file.path, file.content ?? '']));
+}
+
+export async function loadSnapshotCodeContent(snapshot: any): Promise<string | null> {
+  if (!snapshot.code_content_hash) {
+    return null;
+  }
+
+  const db = getDatabase();
+  const get = promisify(db.get.bind(db)) as QueryGet;
+
+  const blob = await get('SELECT content FROM snapshot_blobs WHERE hash = ?', [snapshot.code_content_hash]);
+  return blob?.content ?? null;
+}
+
+// Remove a project's snapshots, then any blob no remaining snapshot refers to. Blobs
+// are only written with a snapshot, inside its transaction, so call this inside one too.
+export async function deleteProjectSnapshots(projectId: string): Promise<void> {
+  const db = getDatabase();
+  const run = promisify(db.run.bind(db)) as QueryRun;
+
+  await run(
+    'DELETE FROM project_snapshot_files WHERE snapshot_id IN (SELECT id FROM project_snapshots WHERE project_id = ?)',
+    [projectId]
+  );
+  await run('DELETE FROM project_snapshots WHERE project_id = ?', [projectId]);
+  await run(
+    `DELETE FROM snapshot_blobs
+     WHERE hash NOT IN (SELECT content_hash FROM project_snapshot_files)
+       AND hash NOT IN (SELECT code_content_hash FROM project_snapshots WHERE code_content_hash IS NOT NULL)`
+  );
+}
+
+export function formatSnapshot(snapshot: any) {
+  return {
+    id: snapshot.id,
+    version: snapshot.version,
+    branch: snapshot.branch,
+    source: snapshot.source,
+    generationId: snapshot.generation_id,
+    restoredFromVersion: snapshot.restored_from_version ?? null,
+    fileCount: snapshot.file_count,
+    size: snapshot.size,
+    createdBy: snapshot.created_by,
+    createdAt: snapshot.created_at
+  };
+}
@@ -0,0 +1,138 @@
+import zlib from 'zlib';
+import { createError } from '../middleware/errorHandler';
+
+// Minimal ZIP reader for imports. Names and sizes come from the central directory,
+// and each entry is inflated with its declared size as a hard cap, so limits
+// checked against those sizes hold even for a crafted archive. Encrypted entries,
+// ZIP64 and compression methods other than stored and deflate are rejected.
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  compressedSize: number;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  method: number;
+  flags: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const DIRECTORY_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const END_OF_DIRECTORY_SIZE = 22;
+const DIRECTORY_ENTRY_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+// Unix file type bits in the upper half of the external attributes
+const UNIX_FILE_TYPE = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+const MADE_BY_UNIX = 3;
+
+function corrupt(): Error {
+  return createError('Corrupt ZIP archive', 400);
+}
+
+// The end of central directory record sits in the last 22 bytes plus an optional comment
+function findEndOfDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - END_OF_DIRECTORY_SIZE - 0xffff);
+  for (let offset = archive.length - END_OF_DIRECTORY_SIZE; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw createError('Not a ZIP archive', 400);
+}
+
+export function listZipEntries(archive: Buffer, maxEntries: number): ZipEntry[] {
+  const end = findEndOfDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  const directorySize = archive.readUInt32LE(end + 12);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw createError('ZIP64 archives are not supported', 400);
+  }
+  if (count > maxEntries) {
+    throw createError(`Archive has more than ${maxEntries} entries`, 413);
+  }
+  if (directoryOffset + directorySize > end) {
+    throw corrupt();
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let index = 0; index < count; index++) {
+    if (offset + DIRECTORY_ENTRY_SIZE > end || archive.readUInt32LE(offset) !== DIRECTORY_ENTRY_SIGNATURE) {
+      throw corrupt();
+    }
+
+    const madeBy = archive.readUInt16LE(offset + 4);
+    const flags = archive.readUInt16LE(offset + 8);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const externalAttributes = archive.readUInt32LE(offset + 38);
+    const nameStart = offset + DIRECTORY_ENTRY_SIZE;
+    if (nameStart + nameLength > end) {
+      throw corrupt();
+    }
+
+    const name = archive.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1', nameStart, nameStart + nameLength);
+    entries.push({
+      name,
+      size: archive.readUInt32LE(offset + 24),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      isDirectory: name.endsWith('/'),
+      isSymlink: madeBy >> 8 === MADE_BY_UNIX && ((externalAttributes >>> 16) & UNIX_FILE_TYPE) === UNIX_SYMLINK,
+      method: archive.readUInt16LE(offset + 10),
+      flags,
+      localHeaderOffset: archive.readUInt32LE(offset + 42)
+    });
+
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+export function readZipEntry(archive: Buffer, entry: ZipEntry): Buffer {
+  if (entry.flags & FLAG_ENCRYPTED) {
+    throw createError(`${entry.name} is encrypted`, 400);
+  }
+
+  const offset = entry.localHeaderOffset;
+  if (offset + LOCAL_HEADER_SIZE > archive.length || archive.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE) {
+    throw corrupt();
+  }
+  const dataStart = offset + LOCAL_HEADER_SIZE + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+  if (dataStart + entry.compressedSize > archive.length) {
+    throw corrupt();
+  }
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+  let content: Buffer;
+  if (entry.method === METHOD_STORED) {
+    content = data;
+  } else if (entry.method === METHOD_DEFLATE) {
+    try {
+      content = zlib.inflateRawSync(data, { maxOutputLength: Math.max(entry.size, 1) });
+    } catch {
+      throw createError(`Could not decompress ${entry.name}`, 400);
+    }
+  } else {
+    throw createError(`${entry.name} uses an unsupported compression method`, 400);
+  }
+
+  if (content.length !== entry.size) {
+    throw createError(`Size of ${entry.name} does not match the archive directory`, 400);
+  }
+  return content;
+}
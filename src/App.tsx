@@ -1,10 +1,22 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
+import type { ReactNode } from 'react'
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom'
 import LandingPage from './pages/LandingPage'
 import Dashboard from './pages/Dashboard'
 import ProjectEditor from './pages/ProjectEditor'
 import ProjectCreation from './pages/ProjectCreation'
 import AuthPage from './pages/AuthPage'
 import PricingPage from './pages/PricingPage'
+import SettingsPage from './pages/SettingsPage'
+import { getAuthToken } from './lib/api'
+
+// Pages that call the API send signed-out users to sign in, and back here afterwards
+function RequireAuth({ children }: { children: ReactNode }) {
+  const location = useLocation()
+  if (!getAuthToken()) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />
+  }
+  return <>{children}</>
+}
 
 function App() {
   return (
@@ -15,8 +27,9 @@ function App() {
           <Route path="/auth" element={<AuthPage />} />
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/project/new" element={<ProjectCreation />} />
-          <Route path="/project/:id" element={<ProjectEditor />} />
+          <Route path="/project/:id" element={<RequireAuth><ProjectEditor /></RequireAuth>} />
           <Route path="/pricing" element={<PricingPage />} />
+          <Route path="/settings" element={<SettingsPage />} />
         </Routes>
       </div>
     </Router>
@@ -0,0 +1,45 @@
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001'
+
+// Set by the auth page after sign-in or sign-up; the backend issues 7-day tokens
+const TOKEN_KEY = 'token'
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY)
+}
+
+export function setAuthToken(token: string) {
+  localStorage.setItem(TOKEN_KEY, token)
+}
+
+export function clearAuthToken() {
+  localStorage.removeItem(TOKEN_KEY)
+}
+
+export async function apiRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const token = getAuthToken()
+
+  const response = await fetch(`${API_URL}${path}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...options.headers
+    }
+  })
+
+  const data = await response.json().catch(() => ({}))
+  // An expired or revoked session; the next protected page sends the user to sign in
+  if (response.status === 401 && token) {
+    clearAuthToken()
+  }
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`)
+  }
+
+  return data as T
+}
+
+// SQLite timestamps come back as UTC without a zone designator
+export function parseTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`)
+}
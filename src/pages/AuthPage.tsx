@@ -1,5 +1,6 @@
 import { useState } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import toast from 'react-hot-toast'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -7,18 +8,43 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
 import { Sparkles, Github, Mail } from 'lucide-react'
+import { apiRequest, setAuthToken } from '@/lib/api'
 
 export default function AuthPage() {
+  const navigate = useNavigate()
+  const location = useLocation()
   const [isLoading, setIsLoading] = useState(false)
+  const [displayName, setDisplayName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  // Pages that require a session send the user here and get them back afterwards
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/dashboard'
+
+  const authenticate = async (path: string, body: Record<string, string>) => {
     setIsLoading(true)
-    // Simulate auth process
-    setTimeout(() => {
+    try {
+      const { token } = await apiRequest<{ token: string }>(path, {
+        method: 'POST',
+        body: JSON.stringify(body)
+      })
+      setAuthToken(token)
+      navigate(redirectTo, { replace: true })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Authentication failed')
+    } finally {
       setIsLoading(false)
-      window.location.href = '/dashboard'
-    }, 2000)
+    }
+  }
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault()
+    authenticate('/api/auth/login', { email, password })
+  }
+
+  const handleSignUp = (e: React.FormEvent) => {
+    e.preventDefault()
+    authenticate('/api/auth/register', { email, password, displayName })
   }
 
   return (
@@ -47,13 +73,15 @@ export default function AuthPage() {
               </TabsList>
               
               <TabsContent value="signin" className="space-y-4">
-                <form onSubmit={handleSubmit} className="space-y-4">
+                <form onSubmit={handleSignIn} className="space-y-4">
                   <div className="space-y-2">
                     <Label htmlFor="email">Email</Label>
                     <Input
                       id="email"
                       type="email"
                       placeholder="Enter your email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
                       required
                     />
                   </div>
@@ -63,6 +91,8 @@ export default function AuthPage() {
                       id="password"
                       type="password"
                       placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
                       required
                     />
                   </div>
@@ -79,13 +109,15 @@ export default function AuthPage() {
               </TabsContent>
               
               <TabsContent value="signup" className="space-y-4">
-                <form onSubmit={handleSubmit} className="space-y-4">
+                <form onSubmit={handleSignUp} className="space-y-4">
                   <div className="space-y-2">
                     <Label htmlFor="name">Full Name</Label>
                     <Input
                       id="name"
                       type="text"
                       placeholder="Enter your full name"
+                      value={displayName}
+                      onChange={(e) => setDisplayName(e.target.value)}
                       required
                     />
                   </div>
@@ -95,6 +127,8 @@ export default function AuthPage() {
                       id="signup-email"
                       type="email"
                       placeholder="Enter your email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
                       required
                     />
                   </div>
@@ -104,6 +138,8 @@ export default function AuthPage() {
                       id="signup-password"
                       type="password"
                       placeholder="Create a password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
                       required
                     />
                   </div>
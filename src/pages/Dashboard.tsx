@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -26,10 +26,19 @@ import {
   LogOut,
   User
 } from 'lucide-react'
+import { apiRequest, clearAuthToken } from '@/lib/api'
 
 export default function Dashboard() {
+  const navigate = useNavigate()
   const [searchQuery, setSearchQuery] = useState('')
 
+  // End the server session too; the local token goes either way
+  const handleLogout = async () => {
+    await apiRequest('/api/auth/logout', { method: 'POST' }).catch(() => undefined)
+    clearAuthToken()
+    navigate('/auth')
+  }
+
   const projects = [
     {
       id: '1',
@@ -120,12 +129,14 @@ export default function Dashboard() {
                     <User className="mr-2 h-4 w-4" />
                     <span>Profile</span>
                   </DropdownMenuItem>
-                  <DropdownMenuItem>
-                    <Settings className="mr-2 h-4 w-4" />
-                    <span>Settings</span>
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings">
+                      <Settings className="mr-2 h-4 w-4" />
+                      <span>Settings</span>
+                    </Link>
                   </DropdownMenuItem>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem>
+                  <DropdownMenuItem onSelect={handleLogout}>
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>Log out</span>
                   </DropdownMenuItem>
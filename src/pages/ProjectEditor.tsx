@@ -8,6 +8,9 @@ import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import toast from 'react-hot-toast'
+import { apiRequest, parseTimestamp } from '@/lib/api'
 import { 
   Send,
   Download,
@@ -24,6 +27,38 @@ import {
   Monitor
 } from 'lucide-react'
 
+interface ChatMessage {
+  id: string
+  type: 'user' | 'assistant' | 'system'
+  content: string
+  timestamp: Date
+}
+
+interface ModelOption {
+  id: string
+  name: string
+  capabilities: string[]
+  allowed: boolean
+}
+
+interface Entitlements {
+  defaultModel: string
+}
+
+interface ConversationSummary {
+  id: string
+}
+
+interface ConversationDetail {
+  id: string
+  messages: {
+    id: string
+    role: 'user' | 'assistant'
+    content: string
+    createdAt: string
+  }[]
+}
+
 export default function ProjectEditor() {
   const { id } = useParams()
   const [message, setMessage] = useState('')
@@ -31,26 +66,10 @@ export default function ProjectEditor() {
   const [previewMode, setPreviewMode] = useState<'desktop' | 'mobile'>('desktop')
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
-  const [chatMessages, setChatMessages] = useState([
-    {
-      id: '1',
-      type: 'user' as const,
-      content: 'Build a todo app with user authentication',
-      timestamp: new Date('2024-01-15T10:00:00')
-    },
-    {
-      id: '2',
-      type: 'assistant' as const,
-      content: 'I\'ll build a todo app with user authentication for you. Let me create the components, set up the database schema, and implement the authentication flow.',
-      timestamp: new Date('2024-01-15T10:00:30')
-    },
-    {
-      id: '3',
-      type: 'system' as const,
-      content: 'Created React components: TodoList, TodoItem, AuthForm\nSet up Supabase database with todos and users tables\nImplemented JWT authentication\nDeployed to production',
-      timestamp: new Date('2024-01-15T10:01:00')
-    }
-  ])
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [models, setModels] = useState<ModelOption[]>([])
+  const [selectedModel, setSelectedModel] = useState<string>()
 
   const project = {
     id: id || '1',
@@ -79,12 +98,63 @@ export default function ProjectEditor() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [chatMessages])
 
+  // Load the most recent conversation for this project
+  useEffect(() => {
+    if (!id) return
+
+    const loadHistory = async () => {
+      try {
+        const { conversations } = await apiRequest<{ conversations: ConversationSummary[] }>(
+          `/api/ai/conversations?projectId=${id}&limit=1`
+        )
+        if (conversations.length === 0) return
+
+        const { conversation } = await apiRequest<{ conversation: ConversationDetail }>(
+          `/api/ai/conversations/${conversations[0].id}`
+        )
+        setConversationId(conversation.id)
+        setChatMessages(conversation.messages.map(msg => ({
+          id: msg.id,
+          type: msg.role,
+          content: msg.content,
+          timestamp: parseTimestamp(msg.createdAt)
+        })))
+      } catch (error) {
+        console.error('Failed to load chat history:', error)
+      }
+    }
+
+    loadHistory()
+  }, [id])
+
+  // Load chat models, with the ones the current plan doesn't include shown as locked
+  useEffect(() => {
+    const loadModels = async () => {
+      try {
+        const [{ models }, { entitlements }] = await Promise.all([
+          apiRequest<{ models: ModelOption[] }>('/api/ai/models'),
+          apiRequest<{ entitlements: Entitlements }>('/api/users/entitlements')
+        ])
+        const chatModels = models.filter(model => model.capabilities.includes('chat'))
+        const defaultModel = chatModels.find(model => model.id === entitlements.defaultModel && model.allowed)
+          || chatModels.find(model => model.allowed)
+
+        setModels(chatModels)
+        setSelectedModel(defaultModel?.id)
+      } catch (error) {
+        console.error('Failed to load models:', error)
+      }
+    }
+
+    loadModels()
+  }, [])
+
   const handleSendMessage = async () => {
     if (!message.trim()) return
 
-    const newMessage = {
+    const newMessage: ChatMessage = {
       id: Date.now().toString(),
-      type: 'user' as const,
+      type: 'user',
       content: message,
       timestamp: new Date()
     }
@@ -93,17 +163,29 @@ export default function ProjectEditor() {
     setMessage('')
     setIsGenerating(true)
 
-    // Simulate AI response
-    setTimeout(() => {
-      const aiResponse = {
-        id: (Date.now() + 1).toString(),
-        type: 'assistant' as const,
-        content: 'I understand you want to modify the todo app. Let me implement those changes for you.',
+    try {
+      const result = await apiRequest<{ response: string; conversationId: string; messageId: string }>(
+        '/api/ai/chat',
+        {
+          method: 'POST',
+          body: JSON.stringify(conversationId
+            ? { message: newMessage.content, conversationId, model: selectedModel }
+            : { message: newMessage.content, projectId: id, model: selectedModel })
+        }
+      )
+
+      setConversationId(result.conversationId)
+      setChatMessages(prev => [...prev, {
+        id: result.messageId,
+        type: 'assistant',
+        content: result.response,
         timestamp: new Date()
-      }
-      setChatMessages(prev => [...prev, aiResponse])
+      }])
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send message')
+    } finally {
       setIsGenerating(false)
-    }, 2000)
+    }
   }
 
   const handleDownloadCode = () => {
@@ -207,7 +289,21 @@ export default function ProjectEditor() {
               </div>
 
               {/* Chat Input */}
-              <div className="p-4 border-t">
+              <div className="p-4 border-t space-y-2">
+                {models.length > 0 && (
+                  <Select value={selectedModel} onValueChange={setSelectedModel}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder="Select a model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map((model) => (
+                        <SelectItem key={model.id} value={model.id} disabled={!model.allowed}>
+                          {model.name}{!model.allowed && ' (upgrade required)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <div className="flex space-x-2">
                   <Textarea
                     placeholder="Describe what you want to change..."
@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import toast from 'react-hot-toast'
+import { apiRequest, parseTimestamp } from '@/lib/api'
+import { ArrowLeft, KeyRound, Sparkles } from 'lucide-react'
+
+interface ProviderKey {
+  provider: string
+  name: string
+  configured: boolean
+  keyHint: string | null
+  validatedAt: string | null
+}
+
+export default function SettingsPage() {
+  const [providers, setProviders] = useState<ProviderKey[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [busyProvider, setBusyProvider] = useState<string | null>(null)
+
+  const loadKeys = async () => {
+    try {
+      const { providers } = await apiRequest<{ providers: ProviderKey[] }>('/api/users/api-keys')
+      setProviders(providers)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load API keys')
+    }
+  }
+
+  useEffect(() => {
+    loadKeys()
+  }, [])
+
+  // Every action re-validates the key with the provider, so it can take a moment
+  const runAction = async (provider: string, action: () => Promise<{ message: string }>) => {
+    setBusyProvider(provider)
+    try {
+      const { message } = await action()
+      toast.success(message)
+      await loadKeys()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Request failed')
+    } finally {
+      setBusyProvider(null)
+    }
+  }
+
+  const handleSave = (provider: string) => runAction(provider, async () => {
+    const result = await apiRequest<{ message: string }>(`/api/users/api-keys/${provider}`, {
+      method: 'PUT',
+      body: JSON.stringify({ apiKey: drafts[provider] })
+    })
+    setDrafts(prev => ({ ...prev, [provider]: '' }))
+    return result
+  })
+
+  const handleTest = (provider: string) => runAction(provider, () =>
+    apiRequest<{ message: string }>(`/api/users/api-keys/${provider}/test`, { method: 'POST' })
+  )
+
+  const handleRemove = (provider: string) => runAction(provider, () =>
+    apiRequest<{ message: string }>(`/api/users/api-keys/${provider}`, { method: 'DELETE' })
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Navigation */}
+      <nav className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 h-16">
+            <Link to="/dashboard">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="flex items-center space-x-2">
+              <div className="w-8 h-8 bg-gradient-to-r from-primary to-accent rounded-lg flex items-center justify-center">
+                <Sparkles className="h-5 w-5 text-white" />
+              </div>
+              <span className="text-xl font-bold">Settings</span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <KeyRound className="h-5 w-5 mr-2" />
+            API Keys
+          </h1>
+          <p className="text-muted-foreground">
+            Use your own provider keys instead of platform credits. Requests to a provider with a saved key are billed to your account with that provider.
+          </p>
+        </div>
+
+        {providers.map((provider) => (
+          <Card key={provider.provider}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>{provider.name}</CardTitle>
+                {provider.configured ? (
+                  <Badge>Key {provider.keyHint}</Badge>
+                ) : (
+                  <Badge variant="secondary">Using platform credits</Badge>
+                )}
+              </div>
+              {provider.validatedAt && (
+                <CardDescription>
+                  Last verified {parseTimestamp(provider.validatedAt).toLocaleString()}
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`key-${provider.provider}`}>
+                  {provider.configured ? 'Replace key' : 'API key'}
+                </Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id={`key-${provider.provider}`}
+                    type="password"
+                    autoComplete="off"
+                    placeholder={`Paste your ${provider.name} API key`}
+                    value={drafts[provider.provider] || ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [provider.provider]: e.target.value }))}
+                  />
+                  <Button
+                    onClick={() => handleSave(provider.provider)}
+                    disabled={!drafts[provider.provider]?.trim() || busyProvider === provider.provider}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+              {provider.configured && (
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleTest(provider.provider)}
+                    disabled={busyProvider === provider.provider}
+                  >
+                    Test key
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemove(provider.provider)}
+                    disabled={busyProvider === provider.provider}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}